@@ -0,0 +1,34 @@
+import {
+  Field,
+  state,
+  State,
+  method,
+  SmartContract,
+  Experimental,
+} from 'snarkyjs';
+
+export { Counter, Square };
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  @method increment(by: Field) {
+    by.assertLessThan(10);
+    let count = this.count.get();
+    this.count.assertEquals(count);
+    this.count.set(count.add(by));
+  }
+}
+
+let Square = Experimental.ZkProgram({
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    run: {
+      privateInputs: [],
+      method(x: Field) {
+        return x.mul(x);
+      },
+    },
+  },
+});
@@ -0,0 +1,61 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Mina,
+  PrivateKey,
+  AccountUpdate,
+  ProverPool,
+  setProverPool,
+} from 'snarkyjs';
+import { Counter, Square } from './counter.js';
+
+await isReady;
+
+let Local = Mina.LocalBlockchain();
+Mina.setActiveInstance(Local);
+let feePayer = Local.testAccounts[0].privateKey;
+
+// two independent counters, which are updated in the same transaction
+let keys = [PrivateKey.random(), PrivateKey.random()];
+let counters = keys.map((key) => new Counter(key.toPublicKey()));
+
+console.log('compiling...');
+await Counter.compile();
+
+let tx = await Mina.transaction(feePayer, () => {
+  AccountUpdate.fundNewAccount(feePayer, 2);
+  counters.forEach((counter) => counter.deploy());
+});
+await tx.sign(keys).send();
+
+console.log('starting prover pool...');
+let pool = await ProverPool.start({
+  worker: new URL('./worker.js', import.meta.url),
+  size: 2,
+});
+setProverPool(pool);
+
+tx = await Mina.transaction(feePayer, () => {
+  counters.forEach((counter, i) => counter.increment(Field(i + 1)));
+});
+console.time('proving both account updates');
+await tx.prove();
+console.timeEnd('proving both account updates');
+await tx.send();
+console.log(
+  'counts:',
+  counters.map((counter) => counter.count.get().toString())
+);
+
+// ZkProgram proofs which are requested at the same time are created by different workers
+console.time('proving two programs');
+let proofs = await Promise.all([Square.run(Field(2)), Square.run(Field(3))]);
+console.timeEnd('proving two programs');
+console.log(
+  'public outputs:',
+  proofs.map((proof) => proof.publicOutput.toString())
+);
+
+await pool.close();
+shutdown();
@@ -0,0 +1,7 @@
+import { isReady, runProverWorker } from 'snarkyjs';
+import { Counter, Square } from './counter.js';
+
+await isReady;
+
+// this script runs in every worker of the pool, and registers the programs which the workers can prove
+await runProverWorker({ Counter, Square });
@@ -32,31 +32,72 @@ export {
   Account,
   VerificationKey,
   Reducer,
+  decodeEvent,
 } from './lib/zkapp.js';
 export { state, State, declareState } from './lib/state.js';
-export { Proof, SelfProof, verify } from './lib/proof_system.js';
+export {
+  Proof,
+  SelfProof,
+  verify,
+  VerificationKeyCache,
+  CachedVerificationKey,
+  MemoryVerificationKeyCache,
+  verificationKeyCacheKey,
+} from './lib/proof_system.js';
+export { FileVerificationKeyCache } from './lib/verification_key_cache.js';
+export {
+  ProverPool,
+  setProverPool,
+  runProverWorker,
+  ProverWorkerProgram,
+} from './lib/prover_pool.js';
 
 export {
   Token,
   AccountUpdate,
   Permissions,
   ZkappPublicInput,
+  TokenId,
 } from './lib/account_update.js';
 
 export {
   fetchAccount,
   fetchLastBlock,
   fetchTransactionStatus,
+  fetchTransactionInfo,
   fetchEvents,
+  fetchActions,
   TransactionStatus,
+  TransactionInfo,
   addCachedAccount,
   setGraphqlEndpoint,
+  setGraphqlEndpoints,
+  setRetryConfig,
   sendZkapp,
 } from './lib/fetch.js';
+export {
+  subscribeToEvents,
+  subscribeToActions,
+  Subscription,
+} from './lib/subscription.js';
+export {
+  startMockGraphqlServer,
+  MockGraphqlServer,
+} from './lib/mina/mock_graphql_server.js';
 export * as Encryption from './lib/encryption.js';
 export * as Encoding from './lib/encoding.js';
 export { Character, CircuitString } from './lib/string.js';
-export { MerkleTree, MerkleWitness } from './lib/merkle_tree.js';
+export {
+  MerkleTree,
+  MerkleWitness,
+  MerkleNodeStore,
+  MemoryMerkleNodeStore,
+} from './lib/merkle_tree.js';
+export { FileMerkleNodeStore } from './lib/merkle_tree_file_store.js';
+export {
+  IncrementalMerkleTree,
+  IncrementalMerkleWitness,
+} from './lib/incremental_merkle_tree.js';
 export { MerkleMap, MerkleMapWitness } from './lib/merkle_map.js';
 
 // experimental APIs
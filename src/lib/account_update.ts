@@ -21,6 +21,7 @@ import * as Encoding from './encoding.js';
 import { hashWithPrefix, packToFields } from './hash.js';
 import { prefixes } from '../js_crypto/constants.js';
 import { Context } from './global-context.js';
+import { getProverPool, ProverPool } from './prover_pool.js';
 
 // external API
 export { AccountUpdate, Permissions, ZkappPublicInput };
@@ -35,6 +36,7 @@ export {
   FeePayerUnsigned,
   ZkappCommand,
   addMissingSignatures,
+  signFullCommitment,
   addMissingProofs,
   signJsonTransaction,
   ZkappStateLength,
@@ -46,6 +48,8 @@ export {
   createChildAccountUpdate,
   AccountUpdatesLayout,
   zkAppProver,
+  proveAccountUpdate,
+  LazyProof,
 };
 
 const ZkappStateLength = 8;
@@ -1844,6 +1848,54 @@ function addMissingSignatures(
   };
 }
 
+/**
+ * Signs the fee payer of a transaction again, after its body was changed, e.g. to increase the fee.
+ *
+ * Account updates which are signed with the full commitment are signed again as well, because the full commitment
+ * includes the fee payer. Other signatures and proofs stay valid.
+ */
+function signFullCommitment(
+  zkappCommand: ZkappCommand,
+  keys: PrivateKey[]
+): ZkappCommand {
+  let { fullCommitment } = Ledger.transactionCommitments(
+    JSON.stringify(ZkappCommand.toJSON(zkappCommand))
+  );
+  function sign(publicKey: PublicKey) {
+    let privateKey = keys.find((sk) =>
+      sk.toPublicKey().equals(publicKey).toBoolean()
+    );
+    if (privateKey === undefined) {
+      throw Error(
+        `signFullCommitment: Cannot add signature for ${publicKey.toBase58()}, private key is missing.`
+      );
+    }
+    return Ledger.signFieldElement(fullCommitment, privateKey, false);
+  }
+  let { feePayer, accountUpdates, memo } = zkappCommand;
+  return {
+    feePayer: {
+      body: feePayer.body,
+      authorization: sign(feePayer.body.publicKey),
+    },
+    accountUpdates: accountUpdates.map((accountUpdate) => {
+      if (
+        accountUpdate.authorization.signature === undefined ||
+        !accountUpdate.body.useFullCommitment.toBoolean()
+      ) {
+        return accountUpdate;
+      }
+      accountUpdate = AccountUpdate.clone(accountUpdate);
+      Authorization.setSignature(
+        accountUpdate,
+        sign(accountUpdate.body.publicKey)
+      );
+      return accountUpdate;
+    }),
+    memo,
+  };
+}
+
 /**
  * The public input for zkApps consists of certain hashes of the proving
  AccountUpdate (and its child accountUpdates) which is constructed during method
@@ -1877,8 +1929,13 @@ async function addMissingProofs(
   type AccountUpdateProved = AccountUpdate & {
     lazyAuthorization?: LazySignature;
   };
+  let proverPool = getProverPool();
 
-  async function addProof(index: number, accountUpdate: AccountUpdate) {
+  async function addProof(
+    index: number,
+    accountUpdate: AccountUpdate,
+    pool?: ProverPool
+  ) {
     accountUpdate = AccountUpdate.clone(accountUpdate);
 
     if (accountUpdate.lazyAuthorization?.kind !== 'lazy-proof') {
@@ -1894,46 +1951,25 @@ async function addMissingProofs(
         proof: undefined,
       };
     }
-    let {
-      methodName,
-      args,
-      previousProofs,
-      ZkappClass,
-      memoized,
-      blindingValue,
-    } = accountUpdate.lazyAuthorization;
+    let lazyProof = accountUpdate.lazyAuthorization;
+    let { ZkappClass } = lazyProof;
     let publicInput = accountUpdate.toPublicInput();
     let publicInputFields = ZkappPublicInput.toFields(publicInput);
-    if (ZkappClass._provers === undefined)
-      throw Error(
-        `Cannot prove execution of ${methodName}(), no prover found. ` +
-          `Try calling \`await ${ZkappClass.name}.compile()\` first, this will cache provers in the background.`
-      );
-    let provers = ZkappClass._provers;
-    let methodError =
-      `Error when computing proofs: Method ${methodName} not found. ` +
-      `Make sure your environment supports decorators, and annotate with \`@method ${methodName}\`.`;
-    if (ZkappClass._methods === undefined) throw Error(methodError);
-    let i = ZkappClass._methods.findIndex((m) => m.methodName === methodName);
-    if (i === -1) throw Error(methodError);
-    let [, [, proof]] = await zkAppProver.run(
-      [accountUpdate.publicKey, accountUpdate.tokenId, ...args],
-      { transaction: zkappCommand, accountUpdate, index },
-      () =>
-        memoizationContext.runWithAsync(
-          { memoized, currentIndex: 0, blindingValue },
-          async () => {
-            try {
-              return await provers[i](publicInputFields, previousProofs);
-            } catch (err) {
-              console.error(
-                `Error when proving ${ZkappClass.name}.${methodName}()`
-              );
-              throw err;
-            }
-          }
-        )
-    );
+    let proof =
+      pool === undefined
+        ? await proveAccountUpdate(
+            zkappCommand,
+            index,
+            accountUpdate,
+            lazyProof,
+            publicInputFields
+          )
+        : await pool._proveAccountUpdate(
+            zkappCommand,
+            index,
+            lazyProof,
+            publicInputFields
+          );
     Authorization.setProof(
       accountUpdate,
       Pickles.proofToBase64Transaction(proof)
@@ -1947,21 +1983,87 @@ async function addMissingProofs(
   }
 
   let { feePayer, accountUpdates, memo } = zkappCommand;
-  // compute proofs serially. in parallel would clash with our global variable
-  // hacks
-  let accountUpdatesProved: AccountUpdateProved[] = [];
-  let proofs: (Proof<ZkappPublicInput> | undefined)[] = [];
+  // proofs which the prover pool can create are computed in parallel, by its workers.
+  // the other proofs are computed serially, because in parallel they would clash with our global variable hacks
+  let proofsInWorkers = accountUpdates.map((accountUpdate, i) => {
+    if (!proofsEnabled || proverPool === undefined) return undefined;
+    let lazyProof = accountUpdate.lazyAuthorization;
+    if (lazyProof?.kind !== 'lazy-proof') return undefined;
+    if (!proverPool._canProveAccountUpdate(lazyProof)) return undefined;
+    let result = addProof(i, accountUpdate, proverPool);
+    // avoid an unhandled rejection while waiting for the serial proofs, the error is thrown below
+    result.catch(() => {});
+    return result;
+  });
+  let results: Awaited<ReturnType<typeof addProof>>[] = [];
+  for (let i = 0; i < accountUpdates.length; i++) {
+    if (proofsInWorkers[i] !== undefined) continue;
+    results[i] = await addProof(i, accountUpdates[i]);
+  }
   for (let i = 0; i < accountUpdates.length; i++) {
-    let { accountUpdateProved, proof } = await addProof(i, accountUpdates[i]);
-    accountUpdatesProved.push(accountUpdateProved);
-    proofs.push(proof);
+    if (proofsInWorkers[i] === undefined) continue;
+    results[i] = await proofsInWorkers[i]!;
   }
   return {
-    zkappCommand: { feePayer, accountUpdates: accountUpdatesProved, memo },
-    proofs,
+    zkappCommand: {
+      feePayer,
+      accountUpdates: results.map((r) => r.accountUpdateProved),
+      memo,
+    },
+    proofs: results.map((r) => r.proof),
   };
 }
 
+/**
+ * Runs the prover of a smart contract method, which proves the account update at `index` of the transaction.
+ */
+async function proveAccountUpdate(
+  transaction: ZkappCommand,
+  index: number,
+  accountUpdate: AccountUpdate,
+  {
+    methodName,
+    args,
+    previousProofs,
+    ZkappClass,
+    memoized,
+    blindingValue,
+  }: Omit<LazyProof, 'kind'>,
+  publicInputFields: Field[]
+) {
+  if (ZkappClass._getProvers === undefined)
+    throw Error(
+      `Cannot prove execution of ${methodName}(), no prover found. ` +
+        `Try calling \`await ${ZkappClass.name}.compile()\` first, this will cache provers in the background.`
+    );
+  let provers = ZkappClass._getProvers();
+  let methodError =
+    `Error when computing proofs: Method ${methodName} not found. ` +
+    `Make sure your environment supports decorators, and annotate with \`@method ${methodName}\`.`;
+  if (ZkappClass._methods === undefined) throw Error(methodError);
+  let i = ZkappClass._methods.findIndex((m) => m.methodName === methodName);
+  if (i === -1) throw Error(methodError);
+  let [, [, proof]] = await zkAppProver.run(
+    [accountUpdate.publicKey, accountUpdate.tokenId, ...args],
+    { transaction, accountUpdate, index },
+    () =>
+      memoizationContext.runWithAsync(
+        { memoized, currentIndex: 0, blindingValue },
+        async () => {
+          try {
+            return await provers[i](publicInputFields, previousProofs);
+          } catch (err) {
+            console.error(
+              `Error when proving ${ZkappClass.name}.${methodName}()`
+            );
+            throw err;
+          }
+        }
+      )
+  );
+  return proof;
+}
+
 /**
  * Sign all accountUpdates of a transaction which belong to the account
  * determined by [[ `privateKey` ]].
@@ -0,0 +1,102 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  SmartContract,
+  AccountUpdate,
+  State,
+  state,
+  method,
+  UInt32,
+  Bool,
+} from 'snarkyjs';
+
+class Counter extends SmartContract {
+  @state(Field) x = State<Field>();
+
+  @method set(y: Field) {
+    this.x.set(y);
+  }
+}
+
+describe('transaction errors', () => {
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappAddress: PublicKey;
+  let zkapp: Counter;
+
+  async function sendAndCatch(f: () => void) {
+    let tx = await Mina.transaction(feePayer, f);
+    await tx.prove();
+    try {
+      await tx.sign([feePayerKey]).send();
+    } catch (err: any) {
+      return err.message as string;
+    }
+    throw Error('transaction was expected to fail');
+  }
+
+  beforeAll(async () => {
+    await isReady;
+    let Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    let zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new Counter(zkappAddress);
+
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('explains unsatisfied preconditions with the current value', async () => {
+    let message = await sendAndCatch(() => {
+      let update = AccountUpdate.create(zkappAddress);
+      update.account.nonce.assertEquals(UInt32.from(100));
+    });
+
+    expect(message).toContain(
+      `Account update #1 (public key ${zkappAddress.toBase58()}, token id`
+    );
+    expect(message).toContain(
+      'requires the nonce to be between 100 and 100, but it is 0'
+    );
+    expect(message).toContain('Account_nonce_precondition_unsatisfied');
+  });
+
+  it('explains missing permissions with the required authorization', async () => {
+    let message = await sendAndCatch(() => {
+      let update = AccountUpdate.createSigned(zkappAddress);
+      update.update.appState[0] = { isSome: Bool(true), value: Field(1) };
+    });
+
+    expect(message).toContain(
+      'is not allowed to change the app state: it is authorized by a signature, but the `editState` permission requires a proof'
+    );
+    expect(message).toContain('`@method`');
+  });
+
+  it('explains a failed app state precondition', async () => {
+    let message = await sendAndCatch(() => {
+      let update = AccountUpdate.create(zkappAddress);
+      update.body.preconditions.account.state[0] = {
+        isSome: Bool(true),
+        value: Field(5),
+      };
+    });
+
+    expect(message).toContain(
+      'requires field 0 of the app state to be 5, but it is 0'
+    );
+  });
+});
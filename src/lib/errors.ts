@@ -1,6 +1,8 @@
 import { Types } from '../provable/types.js';
+import { Field } from './core.js';
 import { TokenId } from './account_update.js';
 import { Int64 } from './int.js';
+import { PublicKey } from './signature.js';
 
 export { invalidTransactionError };
 
@@ -44,6 +46,278 @@ ${(-Number(accountCreationFee) * 1e-9).toFixed(
   2
 )} times the number of newly created accounts.`;
   },
+
+  // preconditions
+
+  Account_balance_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { balance } = accountPreconditions(args);
+    let account = currentAccount(args);
+    return `${describe(args)} requires the balance to be between ${
+      balance.value.lower
+    } and ${balance.value.upper}${
+      account ? `, but it is ${account.balance}` : ''
+    } (in nanomina, for MINA accounts).`;
+  },
+  Account_nonce_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { nonce } = accountPreconditions(args);
+    let account = currentAccount(args);
+    return `${describe(args)} requires the nonce to be between ${
+      nonce.value.lower
+    } and ${nonce.value.upper}${account ? `, but it is ${account.nonce}` : ''}.
+The nonce increases with every transaction signed by the account, and signed account updates usually require the current nonce.
+If another transaction of this account was applied after this one was created, create this transaction again.`;
+  },
+  Account_receipt_chain_hash_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { receiptChainHash } = accountPreconditions(args);
+    return `${describe(args)} requires the receipt chain hash to be ${
+      receiptChainHash.value
+    }, which doesn't match the account.`;
+  },
+  Account_delegate_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { delegate } = accountPreconditions(args);
+    let account = currentAccount(args);
+    return `${describe(args)} requires the delegate to be ${PublicKey.toBase58(
+      delegate.value
+    )}${
+      account
+        ? `, but it is ${
+            account.delegate ? PublicKey.toBase58(account.delegate) : 'not set'
+          }`
+        : ''
+    }.`;
+  },
+  Account_sequence_state_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { sequenceState } = accountPreconditions(args);
+    return `${describe(args)} requires the action state to be ${
+      sequenceState.value
+    }, which is not one of the recent action states of the account.
+This happens when actions were dispatched after the transaction was created, for example when reducing actions. Create the transaction again.`;
+  },
+  Account_app_state_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let index = Number(args.details[0]);
+    let { state } = accountPreconditions(args);
+    let account = currentAccount(args);
+    let actual = account?.zkapp?.appState[index];
+    return `${describe(args)} requires field ${index} of the app state to be ${
+      state[index]?.value
+    }${actual ? `, but it is ${actual}` : ''}.
+Such preconditions are usually created by \`state.assertEquals()\`. If the state changed after the transaction was created, create it again.`;
+  },
+  Account_proved_state_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { provedState } = accountPreconditions(args);
+    let expected = provedState.value.toBoolean();
+    return `${describe(
+      args
+    )} requires \`provedState\` to be ${expected}, but it is ${!expected}.
+\`provedState\` is true if all fields of the app state were last changed by account updates which were authorized by a proof.${
+      expected
+        ? '\nIf this comes from `this.account.provedState.assertEquals(Bool(true))`, initialize all state fields in a `@method` first.'
+        : ''
+    }`;
+  },
+  Account_is_new_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let { isNew } = accountPreconditions(args);
+    return isNew.value.toBoolean()
+      ? `${describe(
+          args
+        )} requires a new account, but the account already exists.`
+      : `${describe(
+          args
+        )} requires an existing account, but the account doesn't exist yet.`;
+  },
+  Protocol_state_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let network = args.isFeePayer
+      ? undefined
+      : args.transaction.accountUpdates[args.accountUpdateIndex].body
+          .preconditions.network;
+    let fields = network === undefined ? [] : setPreconditions(network);
+    return `${describe(
+      args
+    )} has a precondition on the network state which is not satisfied${
+      fields.length > 0 ? `, on one of: ${fields.join(', ')}` : ''
+    }.
+If the network state changed after the transaction was created, create it again.`;
+  },
+  Valid_while_precondition_unsatisfied(args: ErrorHandlerArgs) {
+    let validWhile = args.isFeePayer
+      ? undefined
+      : args.transaction.accountUpdates[args.accountUpdateIndex].body
+          .preconditions.validWhile.value;
+    return `${describe(args)} is only valid${
+      validWhile
+        ? ` between global slots ${validWhile.lower} and ${validWhile.upper}`
+        : ' in a range of global slots'
+    }, which doesn't include the current slot.`;
+  },
+  Unexpected_verification_key_hash(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} is authorized by a proof for a different verification key than the one stored in the account.
+Make sure the zkApp was deployed with the verification key returned by the latest \`compile()\`, or deploy it again.`;
+  },
+
+  // permissions
+
+  Update_not_permitted_balance(args: ErrorHandlerArgs) {
+    let isSending =
+      !args.isFeePayer &&
+      Int64.fromObject(
+        args.transaction.accountUpdates[args.accountUpdateIndex].body
+          .balanceChange
+      )
+        .isPositive()
+        .not()
+        .toBoolean();
+    return isSending
+      ? notPermitted(args, 'decrease the balance', 'send')
+      : notPermitted(args, 'increase the balance', 'receive');
+  },
+  Update_not_permitted_timing_existing_account(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change the timing', 'setTiming');
+  },
+  Update_not_permitted_delegate(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change the delegate', 'setDelegate');
+  },
+  Update_not_permitted_app_state(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change the app state', 'editState');
+  },
+  Update_not_permitted_verification_key(args: ErrorHandlerArgs) {
+    return notPermitted(
+      args,
+      'change the verification key',
+      'setVerificationKey'
+    );
+  },
+  Update_not_permitted_sequence_state(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'dispatch actions', 'editSequenceState');
+  },
+  Update_not_permitted_zkapp_uri(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change the zkApp URI', 'setZkappUri');
+  },
+  Update_not_permitted_token_symbol(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change the token symbol', 'setTokenSymbol');
+  },
+  Update_not_permitted_permissions(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change the permissions', 'setPermissions');
+  },
+  Update_not_permitted_nonce(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'increment the nonce', 'incrementNonce');
+  },
+  Update_not_permitted_voting_for(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'change `votingFor`', 'setVotingFor');
+  },
+  Update_not_permitted_access(args: ErrorHandlerArgs) {
+    return notPermitted(args, 'access the account', 'access');
+  },
+
+  // accounts and balances
+
+  Source_not_present(args: ErrorHandlerArgs) {
+    return `${describe(args)} sends funds, but the account doesn't exist.`;
+  },
+  Receiver_not_present(args: ErrorHandlerArgs) {
+    return `${describe(args)} receives funds, but the account doesn't exist.`;
+  },
+  Zkapp_account_not_present(args: ErrorHandlerArgs) {
+    return `${describe(args)} refers to a zkApp account which doesn't exist.`;
+  },
+  Receiver_already_exists(args: ErrorHandlerArgs) {
+    return `${describe(args)} creates an account which already exists.`;
+  },
+  Amount_insufficient_to_create_account(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} creates a new account, but its balance change doesn't cover the account creation fee of ${formatMina(
+      args.accountCreationFee
+    )}.
+Use \`AccountUpdate.fundNewAccount()\` to let another account pay the fee.`;
+  },
+  Cannot_pay_creation_fee_in_token(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} creates a new token account, which would have to pay the account creation fee of ${formatMina(
+      args.accountCreationFee
+    )} in its custom token.
+Use \`AccountUpdate.fundNewAccount()\` to let another account pay the fee in MINA.`;
+  },
+  Source_insufficient_balance(args: ErrorHandlerArgs) {
+    let account = currentAccount(args);
+    return `${describe(args)} sends more funds than the account has${
+      account ? ` (its balance is ${account.balance})` : ''
+    }.`;
+  },
+  Source_minimum_balance_violation(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} would decrease the balance below the minimum balance, which is required by the vesting schedule (timing) of the account.`;
+  },
+  Token_owner_not_caller(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} uses a custom token, but is not approved by the token owner.
+Account updates of token accounts have to be children of an account update of the token owner, for example created by \`this.token.mint()\` or approved by \`this.approve()\` in the token contract.`;
+  },
+  Overflow(args: ErrorHandlerArgs) {
+    return `${describe(args)} causes an amount, like the balance, to overflow.`;
+  },
+  Global_excess_overflow(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} causes the fee excess of the transaction to overflow.`;
+  },
+  Local_excess_overflow(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} causes the balance changes of the transaction to overflow.`;
+  },
+  Local_supply_increase_overflow(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} causes the increase of the MINA supply by the transaction to overflow.`;
+  },
+  Global_supply_increase_overflow(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} causes the increase of the MINA supply to overflow.`;
+  },
+  Signed_command_on_zkapp_account(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} is a zkApp account, which can't be used in a signed command (a simple payment or delegation).`;
+  },
+
+  // authorization and nonces
+
+  Zkapp_command_replay_check_failed(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} is signed, but could be replayed: it neither increments the nonce nor uses the full commitment.
+Use \`AccountUpdate.createSigned()\` or \`requireSignature()\`, which take care of this.`;
+  },
+  Fee_payer_nonce_must_increase(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} has to increment its nonce, because it pays the fee.`;
+  },
+  Fee_payer_must_be_signed(args: ErrorHandlerArgs) {
+    return `${describe(
+      args
+    )} has to be authorized by a signature, because it pays the fee. Sign the transaction with the fee payer's private key.`;
+  },
+  Incorrect_nonce(args: ErrorHandlerArgs) {
+    let account = currentAccount(args);
+    return `${describe(args)} uses the nonce ${
+      args.transaction.feePayer.body.nonce
+    }${account ? `, but the account's nonce is ${account.nonce}` : ''}.
+If another transaction of this account was applied after this one was created, create this transaction again.`;
+  },
+  Predicate(args: ErrorHandlerArgs) {
+    return `${describe(args)} has a precondition which is not satisfied.`;
+  },
+  // reported for the account updates which were not applied because of another failure, which is already explained
+  Cancelled() {
+    return undefined;
+  },
 };
 
 type ErrorHandlerArgs = {
@@ -51,25 +325,64 @@ type ErrorHandlerArgs = {
   accountUpdateIndex: number;
   isFeePayer: boolean;
   accountCreationFee: string | number;
+  /**
+   * The arguments of the error, e.g. the index of the app state field for `Account_app_state_precondition_unsatisfied`.
+   */
+  details: string[];
+  getAccount?: (
+    publicKey: PublicKey,
+    tokenId: Field
+  ) => Types.Account | undefined;
 };
 
 function invalidTransactionError(
   transaction: Types.ZkappCommand,
   errors: string[][][],
-  additionalContext: { accountCreationFee: string | number }
+  additionalContext: {
+    accountCreationFee: string | number;
+    /**
+     * Returns an account as it was before the transaction, to explain errors with the current values of the account.
+     */
+    getAccount?: (
+      publicKey: PublicKey,
+      tokenId: Field
+    ) => Types.Account | undefined;
+  }
 ): string {
   let errorMessages = [];
   let rawErrors = JSON.stringify(errors);
 
-  // handle errors for fee payer
-  let errorsForFeePayer = errors[0];
-  for (let [error] of errorsForFeePayer) {
-    let message = ErrorHandlers[error as keyof typeof ErrorHandlers]?.({
+  function explain(
+    [error, ...details]: string[],
+    accountUpdateIndex: number,
+    isFeePayer: boolean
+  ) {
+    // the app state index can also be part of the error name, like `Account_app_state_3_precondition_unsatisfied`
+    let appStateIndex = error.match(
+      /^Account_app_state_(\d+)_precondition_unsatisfied$/
+    )?.[1];
+    if (appStateIndex !== undefined) {
+      error = 'Account_app_state_precondition_unsatisfied';
+      details = [appStateIndex];
+    }
+    let args = {
       transaction,
-      accountUpdateIndex: NaN,
-      isFeePayer: true,
+      accountUpdateIndex,
+      isFeePayer,
+      details,
       ...additionalContext,
-    });
+    };
+    let handler = ErrorHandlers[error as keyof typeof ErrorHandlers];
+    if (handler === undefined) {
+      return `${describe(args)} failed with error ${error}.`;
+    }
+    return handler(args);
+  }
+
+  // handle errors for fee payer
+  let errorsForFeePayer = errors[0];
+  for (let error of errorsForFeePayer) {
+    let message = explain(error, NaN, true);
     if (message) errorMessages.push(message);
   }
 
@@ -77,13 +390,8 @@ function invalidTransactionError(
   let n = transaction.accountUpdates.length;
   for (let i = 0; i < n; i++) {
     let errorsForUpdate = errors[i + 1];
-    for (let [error] of errorsForUpdate) {
-      let message = ErrorHandlers[error as keyof typeof ErrorHandlers]?.({
-        transaction,
-        accountUpdateIndex: i,
-        isFeePayer: false,
-        ...additionalContext,
-      });
+    for (let error of errorsForUpdate) {
+      let message = explain(error, i, false);
       if (message) errorMessages.push(message);
     }
   }
@@ -101,3 +409,130 @@ function invalidTransactionError(
   // fallback if we don't have a good error message yet
   return rawErrors;
 }
+
+// helpers
+
+// e.g. "Account update #2 (Counter.set(), public key B62..., token id wSH...)"
+function describe({
+  transaction,
+  accountUpdateIndex,
+  isFeePayer,
+}: Pick<
+  ErrorHandlerArgs,
+  'transaction' | 'accountUpdateIndex' | 'isFeePayer'
+>) {
+  if (isFeePayer) {
+    return `The fee payer (public key ${PublicKey.toBase58(
+      transaction.feePayer.body.publicKey
+    )})`;
+  }
+  let accountUpdate = transaction.accountUpdates[accountUpdateIndex];
+  let { publicKey, tokenId } = accountUpdate.body;
+  // account updates created by snarkyjs have a label, but JSON transactions don't
+  let label: string | undefined = (accountUpdate as { label?: string }).label;
+  return `Account update #${accountUpdateIndex + 1} (${
+    label ? `${label}, ` : ''
+  }public key ${PublicKey.toBase58(publicKey)}, token id ${TokenId.toBase58(
+    tokenId
+  )})`;
+}
+
+function accountPreconditions({
+  transaction,
+  accountUpdateIndex,
+  isFeePayer,
+}: ErrorHandlerArgs) {
+  if (isFeePayer) {
+    // the fee payer only has a nonce precondition, given by its nonce
+    let { nonce } = transaction.feePayer.body;
+    let { account } = Types.AccountUpdate.emptyValue().body.preconditions;
+    return {
+      ...account,
+      nonce: {
+        isSome: account.nonce.isSome,
+        value: { lower: nonce, upper: nonce },
+      },
+    };
+  }
+  return transaction.accountUpdates[accountUpdateIndex].body.preconditions
+    .account;
+}
+
+function currentAccount({
+  transaction,
+  accountUpdateIndex,
+  isFeePayer,
+  getAccount,
+}: ErrorHandlerArgs) {
+  let { publicKey, tokenId } = isFeePayer
+    ? {
+        publicKey: transaction.feePayer.body.publicKey,
+        tokenId: TokenId.default,
+      }
+    : transaction.accountUpdates[accountUpdateIndex].body;
+  return getAccount?.(publicKey, tokenId);
+}
+
+const authorizationNames: Record<Types.Json.AuthRequired, string> = {
+  None: 'no authorization',
+  Either: 'a proof or a signature',
+  Proof: 'a proof',
+  Signature: 'a signature',
+  Impossible: 'an impossible authorization',
+};
+
+function notPermitted(
+  args: ErrorHandlerArgs,
+  action: string,
+  permission: keyof Types.Account['permissions']
+) {
+  let authorization = 'no authorization';
+  if (!args.isFeePayer) {
+    let { isSigned, isProved } =
+      args.transaction.accountUpdates[args.accountUpdateIndex].body
+        .authorizationKind;
+    if (isProved.toBoolean()) authorization = 'a proof';
+    else if (isSigned.toBoolean()) authorization = 'a signature';
+  } else {
+    authorization = 'a signature';
+  }
+  let required = currentAccount(args)?.permissions[permission];
+  let requiredJson =
+    required === undefined ? undefined : Types.AuthRequired.toJSON(required);
+  let suggestion =
+    requiredJson === 'Impossible'
+      ? `The permission is set to impossible, so no account update can ${action}.`
+      : requiredJson === 'Proof'
+      ? 'Do this inside a `@method` of the zkApp, and call `tx.prove()` before sending the transaction.'
+      : requiredJson === 'Signature'
+      ? "Use `AccountUpdate.createSigned()` or `requireSignature()`, and sign the transaction with the account's private key."
+      : undefined;
+  return `${describe(
+    args
+  )} is not allowed to ${action}: it is authorized by ${authorization}, but the \`${permission}\` permission${
+    requiredJson
+      ? ` requires ${authorizationNames[requiredJson]}`
+      : " doesn't accept that"
+  }.${suggestion ? `\n${suggestion}` : ''}`;
+}
+
+// names of the network preconditions which are set
+function setPreconditions(
+  network: Types.AccountUpdate['body']['preconditions']['network']
+) {
+  let names: string[] = [];
+  function collect(value: any, path: string[]) {
+    if (value === null || typeof value !== 'object') return;
+    if ('isSome' in value) {
+      if (value.isSome.toBoolean()) names.push(path.join('.'));
+      return;
+    }
+    for (let key in value) collect(value[key], [...path, key]);
+  }
+  collect(network, []);
+  return names;
+}
+
+function formatMina(amount: string | number) {
+  return `${Number(amount) * 1e-9} MINA`;
+}
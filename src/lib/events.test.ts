@@ -0,0 +1,129 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Bool,
+  Struct,
+  PublicKey,
+  PrivateKey,
+  SmartContract,
+  Mina,
+  AccountUpdate,
+  UInt32,
+  TokenId,
+  method,
+  decodeEvent,
+} from 'snarkyjs';
+
+class Transfer extends Struct({ to: PublicKey, amount: Field }) {}
+
+class EventsContract extends SmartContract {
+  events = {
+    transfer: Transfer,
+    flag: Bool,
+    counter: Field,
+  };
+
+  @method emit(amount: Field) {
+    this.emitEvent('transfer', { to: this.address, amount });
+    this.emitEvent('counter', amount.add(1));
+    this.emitEvent('flag', Bool(true));
+  }
+}
+
+describe('events', () => {
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappKey: PrivateKey;
+  let zkappAddress: PublicKey;
+  let zkapp: EventsContract;
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new EventsContract(zkappAddress);
+
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+
+    for (let i = 1; i <= 2; i++) {
+      Local.setBlockchainLength(UInt32.from(i));
+      tx = await Mina.transaction(feePayer, () => {
+        zkapp.emit(Field(i * 10));
+      });
+      await tx.prove();
+      await tx.sign([feePayerKey]).send();
+    }
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('decodes fetched events into their declared types', async () => {
+    let events = await zkapp.fetchEvents();
+    expect(events.map((e) => e.type).sort()).toEqual([
+      'counter',
+      'counter',
+      'flag',
+      'flag',
+      'transfer',
+      'transfer',
+    ]);
+
+    let transfers = events.filter((e) => e.type === 'transfer');
+    let amounts = transfers.map((e) => (e.event as Transfer).amount);
+    expect(amounts.map(String).sort()).toEqual(['10', '20']);
+    transfers.forEach((e) =>
+      expect((e.event as Transfer).to).toEqual(zkappAddress)
+    );
+
+    let counters = events.filter((e) => e.type === 'counter');
+    expect(counters.map((e) => String(e.event)).sort()).toEqual(['11', '21']);
+
+    let flags = events.filter((e) => e.type === 'flag');
+    flags.forEach((e) => expect((e.event as Bool).toBoolean()).toEqual(true));
+  });
+
+  it('only returns events within the given block heights', async () => {
+    let events = await zkapp.fetchEvents(UInt32.from(2), UInt32.from(2));
+    expect(events.length).toEqual(3);
+    events.forEach((e) => expect(e.blockHeight).toEqual(UInt32.from(2)));
+
+    let rawEvents = await Mina.fetchEvents(zkappAddress, TokenId.default, {
+      from: UInt32.from(2),
+    });
+    expect(rawEvents.length).toEqual(1);
+  });
+
+  it('decodes raw events with decodeEvent', async () => {
+    let [rawEvent] = await Mina.fetchEvents(zkappAddress, TokenId.default, {
+      to: UInt32.from(1),
+    });
+    let decoded = rawEvent.events.map((fields) =>
+      decodeEvent(zkapp.events, fields)
+    );
+    expect(decoded.map((e) => e.type).sort()).toEqual([
+      'counter',
+      'flag',
+      'transfer',
+    ]);
+  });
+
+  it('fails to decode an event with an unknown type index', () => {
+    expect(() => decodeEvent(zkapp.events, ['5', '1'])).toThrow(
+      /doesn't match any of the declared event types/
+    );
+    expect(() => decodeEvent(zkapp.events, ['1', '1', '1'])).toThrow(
+      /should have 1 field elements/
+    );
+  });
+});
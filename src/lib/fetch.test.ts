@@ -0,0 +1,111 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  isReady,
+  shutdown,
+  Mina,
+  fetchAccount,
+  fetchLastBlock,
+  setRetryConfig,
+  sendZkapp,
+  startMockGraphqlServer,
+  MockGraphqlServer,
+} from 'snarkyjs';
+
+describe('GraphQL requests', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let mockServer: MockGraphqlServer;
+  // a node which fails the next `failures` requests with 503, and then forwards requests to the mock server
+  let flakyServer: Server;
+  let flakyEndpoint: string;
+  let failures = 0;
+  let requests = 0;
+  // an endpoint where nobody listens
+  let deadEndpoint = 'http://localhost:1/graphql';
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    mockServer = await startMockGraphqlServer(Local);
+    flakyServer = createServer(async (req, res) => {
+      requests++;
+      let body = '';
+      for await (let chunk of req) body += chunk;
+      if (failures > 0) {
+        failures--;
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+      let response = await fetch(mockServer.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(await response.text());
+    });
+    await new Promise<void>((resolve) => flakyServer.listen(0, resolve));
+    let { port } = flakyServer.address() as AddressInfo;
+    flakyEndpoint = `http://localhost:${port}/graphql`;
+    setRetryConfig({ retries: 2, initialDelay: 10, maxDelay: 50 });
+  });
+  afterAll(async () => {
+    await new Promise((resolve) => flakyServer.close(resolve));
+    await mockServer.close();
+    setTimeout(shutdown, 0);
+  });
+  beforeEach(() => {
+    failures = 0;
+    requests = 0;
+  });
+
+  it('retries requests which fail temporarily', async () => {
+    failures = 2;
+    let network = await fetchLastBlock(flakyEndpoint);
+    expect(network.blockchainLength).toEqual(
+      Local.getNetworkState().blockchainLength
+    );
+    expect(requests).toEqual(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    failures = 3;
+    let { error } = await fetchAccount(
+      { publicKey: Local.testAccounts[0].publicKey },
+      flakyEndpoint
+    );
+    expect(error?.statusCode).toEqual(503);
+    expect(requests).toEqual(3);
+  });
+
+  it('fails over to fallback endpoints', async () => {
+    Mina.setActiveInstance(
+      Mina.Network({
+        mina: [deadEndpoint, flakyEndpoint],
+        archive: [deadEndpoint, mockServer.endpoint],
+      })
+    );
+    let publicKey = Local.testAccounts[0].publicKey;
+    let { account, error } = await fetchAccount({ publicKey });
+    expect(error).toBeUndefined();
+    expect(account?.balance).toEqual(Local.getAccount(publicKey).balance);
+    expect(requests).toEqual(1);
+
+    // the failed endpoint is tried last from now on
+    failures = 1;
+    ({ error } = await fetchAccount({ publicKey }));
+    expect(error).toBeUndefined();
+    expect(requests).toEqual(2);
+
+    let actions = await Mina.fetchActions(publicKey);
+    expect(actions).toEqual([]);
+  });
+
+  it('does not repeat transactions', async () => {
+    failures = 1;
+    let [, error] = await sendZkapp('{}', flakyEndpoint);
+    expect(error?.statusCode).toEqual(503);
+    expect(requests).toEqual(1);
+  });
+});
@@ -1,7 +1,7 @@
 import 'isomorphic-fetch';
-import { Field } from '../snarky.js';
+import { Field, Ledger } from '../snarky.js';
 import { UInt32, UInt64 } from './int.js';
-import { TokenId } from './account_update.js';
+import { SequenceEvents, TokenId } from './account_update.js';
 import { PublicKey } from './signature.js';
 import { NetworkValue } from './precondition.js';
 import { Types } from '../provable/types.js';
@@ -14,6 +14,7 @@ import {
   parseFetchedAccount,
   PartialAccount,
 } from './mina/account.js';
+import { FeeSample } from './mina/fee.js';
 
 export {
   fetchAccount,
@@ -21,21 +22,38 @@ export {
   parseFetchedAccount,
   markAccountToBeFetched,
   markNetworkToBeFetched,
+  markActionsToBeFetched,
   fetchMissingData,
   fetchTransactionStatus,
   TransactionStatus,
+  fetchTransactionInfo,
+  TransactionInfo,
+  fetchPooledZkappCommands,
+  PendingTransaction,
+  nextNonce,
+  addPendingTransaction,
+  getPendingTransactions,
+  invalidatePendingTransactions,
+  reconcilePendingTransactions,
   EventActionFilterOptions,
   getCachedAccount,
   getCachedNetwork,
+  getCachedActions,
   addCachedAccount,
   defaultGraphqlEndpoint,
   archiveGraphqlEndpoint,
   setGraphqlEndpoint,
+  setGraphqlEndpoints,
   setArchiveGraphqlEndpoint,
+  setArchiveGraphqlEndpoints,
+  setRetryConfig,
+  RetryConfig,
   sendZkappQuery,
   sendZkapp,
   removeJsonQuotes,
   fetchEvents,
+  fetchActions,
+  ActionStatesStringified,
 };
 
 let defaultGraphqlEndpoint = 'none';
@@ -56,6 +74,40 @@ function setArchiveGraphqlEndpoint(graphqlEndpoint: string) {
   archiveGraphqlEndpoint = graphqlEndpoint;
 }
 
+/**
+ * Specifies the default GraphQL endpoint, together with fallback endpoints.
+ *
+ * Requests are sent to the first endpoint; if it fails, they are sent to the next one, and so on.
+ * Endpoints which failed recently are tried last, for one minute after their last failure.
+ *
+ * @param graphqlEndpoints The default GraphQL endpoint, followed by fallback endpoints.
+ */
+function setGraphqlEndpoints([graphqlEndpoint, ...fallbacks]: string[]) {
+  setGraphqlEndpoint(graphqlEndpoint);
+  fallbackEndpoints[graphqlEndpoint] = fallbacks;
+}
+
+/**
+ * Sets up the GraphQL endpoint of an Archive Node, together with fallback endpoints.
+ * Like for {@link setGraphqlEndpoints}, requests fail over to the next endpoint if an endpoint fails.
+ *
+ * @param graphqlEndpoints The Archive Node GraphQL endpoint, followed by fallback endpoints.
+ */
+function setArchiveGraphqlEndpoints([graphqlEndpoint, ...fallbacks]: string[]) {
+  setArchiveGraphqlEndpoint(graphqlEndpoint);
+  fallbackEndpoints[graphqlEndpoint] = fallbacks;
+}
+
+/**
+ * Configures how failed GraphQL requests are retried. Only errors which are likely to be temporary are retried:
+ * network errors, timeouts, and the HTTP status codes 429 and 5xx.
+ *
+ * @param config The retry configuration; properties which are not given keep their current value.
+ */
+function setRetryConfig(config: Partial<RetryConfig>) {
+  retryConfig = { ...retryConfig, ...config };
+}
+
 /**
  * Gets account information on the specified publicKey by performing a GraphQL query
  * to the specified endpoint. This will call the 'GetAccountInfo' query which fetches
@@ -130,7 +182,34 @@ async function fetchAccountInternal(
   };
 }
 
-type FetchConfig = { timeout?: number };
+type FetchConfig = { timeout?: number; retries?: number; failover?: boolean };
+
+type RetryConfig = {
+  /**
+   * How often a failed request is retried, on all endpoints. Defaults to 2.
+   */
+  retries: number;
+  /**
+   * Milliseconds to wait before the first retry. The delay doubles with every further retry. Defaults to 500.
+   */
+  initialDelay: number;
+  /**
+   * Maximum number of milliseconds to wait between two retries. Defaults to 10 seconds.
+   */
+  maxDelay: number;
+};
+let retryConfig: RetryConfig = {
+  retries: 2,
+  initialDelay: 500,
+  maxDelay: 10000,
+};
+
+// fallback endpoints, by the endpoint they stand in for
+let fallbackEndpoints = {} as Record<string, string[]>;
+// number of consecutive failed requests and time of the last failure, by endpoint
+let endpointFailures = {} as Record<string, { count: number; time: number }>;
+// endpoints which failed are tried last, until this many milliseconds after their last failure
+const failedEndpointCooldown = 60000;
 type FetchResponse = { data: any };
 type FetchError = {
   statusCode: number;
@@ -160,6 +239,23 @@ let accountsToFetch = {} as Record<
   { publicKey: string; tokenId: string; graphqlEndpoint: string }
 >;
 let networksToFetch = {} as Record<string, { graphqlEndpoint: string }>;
+let actionsCache = {} as Record<
+  string,
+  {
+    actions: { hash: string; actions: string[][] }[];
+    graphqlEndpoint: string;
+    timestamp: number;
+  }
+>;
+let actionsToFetch = {} as Record<
+  string,
+  {
+    publicKey: string;
+    tokenId: string;
+    actionStates: ActionStatesStringified;
+    graphqlEndpoint: string;
+  }
+>;
 
 function markAccountToBeFetched(
   publicKey: PublicKey,
@@ -177,8 +273,28 @@ function markAccountToBeFetched(
 function markNetworkToBeFetched(graphqlEndpoint: string) {
   networksToFetch[graphqlEndpoint] = { graphqlEndpoint };
 }
+function markActionsToBeFetched(
+  publicKey: PublicKey,
+  tokenId: Field,
+  graphqlEndpoint: string,
+  actionStates: ActionStatesStringified = {}
+) {
+  let publicKeyBase58 = publicKey.toBase58();
+  let tokenBase58 = TokenId.toBase58(tokenId);
+  actionsToFetch[
+    actionsCacheKey(publicKeyBase58, tokenBase58, actionStates, graphqlEndpoint)
+  ] = {
+    publicKey: publicKeyBase58,
+    tokenId: tokenBase58,
+    actionStates,
+    graphqlEndpoint,
+  };
+}
 
-async function fetchMissingData(graphqlEndpoint: string) {
+async function fetchMissingData(
+  graphqlEndpoint: string,
+  archiveEndpoint?: string
+) {
   let promises = Object.entries(accountsToFetch).map(
     async ([key, { publicKey, tokenId }]) => {
       let response = await fetchAccountInternal(
@@ -201,6 +317,20 @@ async function fetchMissingData(graphqlEndpoint: string) {
       })()
     );
   }
+  if (archiveEndpoint !== undefined) {
+    let actionPromises = Object.entries(actionsToFetch)
+      .filter(([, action]) => action.graphqlEndpoint === archiveEndpoint)
+      .map(async ([key, { publicKey, tokenId, actionStates }]) => {
+        try {
+          await fetchActions(
+            { publicKey, tokenId, actionStates },
+            archiveEndpoint
+          );
+          delete actionsToFetch[key];
+        } catch {}
+      });
+    promises.push(...actionPromises);
+  }
   await Promise.all(promises);
 }
 
@@ -217,6 +347,25 @@ function getCachedNetwork(graphqlEndpoint = defaultGraphqlEndpoint) {
   return networkCache[graphqlEndpoint]?.network;
 }
 
+/**
+ * Returns the cached actions for exactly the given range of action hashes, or `undefined` if that range wasn't fetched.
+ */
+function getCachedActions(
+  publicKey: PublicKey,
+  tokenId: Field,
+  actionStates: ActionStatesStringified = {},
+  graphqlEndpoint = archiveGraphqlEndpoint
+) {
+  return actionsCache[
+    actionsCacheKey(
+      publicKey.toBase58(),
+      TokenId.toBase58(tokenId),
+      actionStates,
+      graphqlEndpoint
+    )
+  ]?.actions;
+}
+
 /**
  * Adds an account to the local cache, indexed by a GraphQL endpoint.
  */
@@ -238,6 +387,38 @@ function addCachedAccountInternal(account: Account, graphqlEndpoint: string) {
   };
 }
 
+function addCachedActions(
+  {
+    publicKey,
+    tokenId,
+    actionStates,
+  }: {
+    publicKey: string;
+    tokenId: string;
+    actionStates: ActionStatesStringified;
+  },
+  actions: { hash: string; actions: string[][] }[],
+  graphqlEndpoint: string
+) {
+  actionsCache[
+    actionsCacheKey(publicKey, tokenId, actionStates, graphqlEndpoint)
+  ] = {
+    actions,
+    graphqlEndpoint,
+    timestamp: Date.now(),
+  };
+}
+
+// actions are cached per range, because the archive node only returns the actions in the requested range
+function actionsCacheKey(
+  publicKey: string,
+  tokenId: string,
+  { fromActionHash, endActionHash }: ActionStatesStringified,
+  graphqlEndpoint: string
+) {
+  return `${publicKey};${tokenId};${fromActionHash};${endActionHash};${graphqlEndpoint}`;
+}
+
 function accountCacheKey(
   publicKey: PublicKey,
   tokenId: Field,
@@ -425,6 +606,338 @@ async function fetchTransactionStatus(
  */
 type TransactionStatus = 'INCLUDED' | 'PENDING' | 'UNKNOWN';
 
+/**
+ * The status of a transaction, as returned by {@link fetchTransactionInfo}.
+ *
+ * pending: The transaction is waiting to be included in the longest chain
+ *
+ * included: The transaction was applied in the block with the given height and hash,
+ * and `confirmations` blocks were added on top of that block since
+ *
+ * failed: The transaction was included in a block, but failed, so only the fee was charged.
+ * The failure reasons are listed by account update, where `index` 0 is the fee payer and `index` i is the i-th account update
+ *
+ * dropped: The transaction is neither pending nor known to the archive node, because it was dropped from the mempool or replaced
+ */
+type TransactionInfo =
+  | { status: 'pending' }
+  | {
+      status: 'included';
+      blockHeight: UInt32;
+      blockHash: string;
+      confirmations: number;
+    }
+  | {
+      status: 'failed';
+      blockHeight: UInt32;
+      blockHash: string;
+      confirmations: number;
+      failureReasons: { index: number; failures: string[] }[];
+    }
+  | { status: 'dropped' };
+
+const archivedTransactionQuery = (hash: string) => `{
+  transaction(input: { hash: "${hash}" }) {
+    blockInfo {
+      distanceFromMaxBlockHeight
+      height
+      stateHash
+    }
+    transactionInfo {
+      hash
+      failureReason {
+        index
+        failures
+      }
+    }
+  }
+}`;
+
+type FetchedArchivedTransaction = {
+  blockInfo: {
+    distanceFromMaxBlockHeight: number;
+    height: number;
+    stateHash: string;
+  };
+  transactionInfo: {
+    hash: string;
+    failureReason: { index: string; failures: string[] }[] | null;
+  };
+};
+
+/**
+ * Fetches the detailed status of a transaction: whether it is pending, was included or failed in a block, or was dropped.
+ *
+ * The status is fetched from the Mina node. Transactions which are not pending are looked up by their hash in the archive node,
+ * which knows the block and the failure reasons of every included transaction.
+ * A transaction which the Mina node reports as included, but which the archive node doesn't know yet, is reported as pending.
+ *
+ * @param transaction The id and hash of the transaction, as returned by the Mina node when sending it.
+ * @param graphqlEndpoint The GraphQL endpoint of the Mina node.
+ * @param archiveEndpoint The GraphQL endpoint of the archive node. Defaults to the Archive Node GraphQL API.
+ * @throws If one of the GraphQL requests fails, or if no archive endpoint is specified.
+ */
+async function fetchTransactionInfo(
+  transaction: { id: string; hash: string },
+  graphqlEndpoint = defaultGraphqlEndpoint,
+  archiveEndpoint = archiveGraphqlEndpoint
+): Promise<TransactionInfo> {
+  if (!archiveEndpoint || archiveEndpoint === 'none')
+    throw Error(
+      'fetchTransactionInfo: Specified archive endpoint is undefined. Please specify a valid endpoint.'
+    );
+  let status = await fetchTransactionStatus(transaction.id, graphqlEndpoint);
+  if (status === 'PENDING') return { status: 'pending' };
+
+  let [resp, error] = await makeGraphqlRequest(
+    archivedTransactionQuery(transaction.hash),
+    archiveEndpoint
+  );
+  if (error) throw Error(error.statusText);
+  let archived: FetchedArchivedTransaction | null | undefined =
+    resp?.data?.transaction;
+  if (archived === undefined) {
+    throw Error(
+      `Failed to fetch the transaction from the archive node. Hash: ${transaction.hash}`
+    );
+  }
+  if (archived === null) {
+    // the archive node can lag behind the Mina node, so an included transaction is pending until it is archived
+    if (status === 'INCLUDED') return { status: 'pending' };
+    return { status: 'dropped' };
+  }
+  let { blockInfo, transactionInfo } = archived;
+  let included = {
+    blockHeight: UInt32.from(blockInfo.height),
+    blockHash: blockInfo.stateHash,
+    confirmations: blockInfo.distanceFromMaxBlockHeight,
+  };
+  let failureReasons = (transactionInfo.failureReason ?? []).map(
+    ({ index, failures }) => ({ index: Number(index), failures })
+  );
+  if (failureReasons.length === 0) return { status: 'included', ...included };
+  return { status: 'failed', ...included, failureReasons };
+}
+
+const pooledZkappCommandsQuery = `{
+  pooledZkappCommands {
+    zkappCommand {
+      feePayer {
+        body {
+          fee
+        }
+      }
+      accountUpdates {
+        body {
+          authorizationKind {
+            isSigned
+            isProved
+          }
+        }
+      }
+    }
+  }
+}`;
+
+type FetchedPooledZkappCommand = {
+  zkappCommand: {
+    feePayer: { body: { fee: string } };
+    accountUpdates: {
+      body: { authorizationKind: { isSigned: boolean; isProved: boolean } };
+    }[];
+  };
+};
+
+/**
+ * Fetches the fees and the kinds of authorization of the zkApp transactions in the mempool of a Mina node.
+ */
+async function fetchPooledZkappCommands(
+  graphqlEndpoint = defaultGraphqlEndpoint
+): Promise<FeeSample[]> {
+  let [resp, error] = await makeGraphqlRequest(
+    pooledZkappCommandsQuery,
+    graphqlEndpoint
+  );
+  if (error) throw Error(error.statusText);
+  let pooled: FetchedPooledZkappCommand[] | undefined =
+    resp?.data?.pooledZkappCommands;
+  if (pooled === undefined || pooled === null) {
+    throw Error('Failed to fetch the transactions in the mempool.');
+  }
+  return pooled.map(({ zkappCommand: { feePayer, accountUpdates } }) => ({
+    fee: UInt64.from(feePayer.body.fee),
+    authorizationKinds: accountUpdates.map(
+      ({ body }) => body.authorizationKind
+    ),
+  }));
+}
+
+/**
+ * A transaction which was sent to a Mina node and is not known to be included yet.
+ *
+ * Pending transactions are tracked per fee payer, so that transactions which are sent one after the other
+ * use increasing nonces, see {@link nextNonce}.
+ */
+type PendingTransaction = {
+  nonce: UInt32;
+  /**
+   * The id of the transaction returned by the Mina node, to query its status.
+   */
+  id: string;
+  /**
+   * How often the transaction was sent again after it was dropped.
+   */
+  resubmissions: number;
+  /**
+   * Sends the transaction again, and returns its new id. Throws if the Mina node doesn't accept it.
+   */
+  resubmit(): Promise<string>;
+  /**
+   * Called when the transaction can't be included anymore, and is no longer tracked.
+   */
+  invalidate(reason: Error): void;
+};
+
+// pending transactions by fee payer and endpoint, ordered by nonce
+let pendingTransactions = {} as Record<string, PendingTransaction[]>;
+
+function pendingKey(publicKey: PublicKey, graphqlEndpoint: string) {
+  return `${publicKey.toBase58()};${graphqlEndpoint}`;
+}
+
+// how often a dropped transaction is sent again, before it and the transactions after it are given up
+const maxResubmissions = 3;
+
+/**
+ * Returns the nonce to use for the next transaction of a fee payer: the nonce of the account,
+ * or the nonce after the last pending transaction if that is higher.
+ */
+function nextNonce(
+  publicKey: PublicKey,
+  accountNonce: UInt32,
+  graphqlEndpoint = defaultGraphqlEndpoint
+) {
+  let pending = getPendingTransactions(publicKey, graphqlEndpoint);
+  let last = pending[pending.length - 1];
+  if (last === undefined || last.nonce.lessThan(accountNonce).toBoolean()) {
+    return accountNonce;
+  }
+  return last.nonce.add(1);
+}
+
+function addPendingTransaction(
+  publicKey: PublicKey,
+  transaction: PendingTransaction,
+  graphqlEndpoint = defaultGraphqlEndpoint
+) {
+  let pending: PendingTransaction[] = [];
+  for (let other of getPendingTransactions(publicKey, graphqlEndpoint)) {
+    if (other.nonce.equals(transaction.nonce).toBoolean()) {
+      other.invalidate(
+        Error(
+          `The transaction with nonce ${other.nonce} was replaced by another transaction with the same nonce.`
+        )
+      );
+    } else {
+      pending.push(other);
+    }
+  }
+  pending.push(transaction);
+  pending.sort((a, b) => Number(a.nonce.toBigint() - b.nonce.toBigint()));
+  pendingTransactions[pendingKey(publicKey, graphqlEndpoint)] = pending;
+}
+
+function getPendingTransactions(
+  publicKey: PublicKey,
+  graphqlEndpoint = defaultGraphqlEndpoint
+) {
+  return pendingTransactions[pendingKey(publicKey, graphqlEndpoint)] ?? [];
+}
+
+/**
+ * Stops tracking the pending transactions of a fee payer with a nonce of at least `fromNonce`,
+ * because they can't be included after the transaction with nonce `fromNonce` failed.
+ */
+function invalidatePendingTransactions(
+  publicKey: PublicKey,
+  fromNonce: UInt32,
+  reason: Error,
+  graphqlEndpoint = defaultGraphqlEndpoint
+) {
+  let pending = getPendingTransactions(publicKey, graphqlEndpoint);
+  let [valid, invalid] = [
+    pending.filter(({ nonce }) => nonce.lessThan(fromNonce).toBoolean()),
+    pending.filter(({ nonce }) => !nonce.lessThan(fromNonce).toBoolean()),
+  ];
+  pendingTransactions[pendingKey(publicKey, graphqlEndpoint)] = valid;
+  for (let transaction of invalid) {
+    transaction.invalidate(
+      transaction.nonce.equals(fromNonce).toBoolean()
+        ? reason
+        : Error(
+            `The transaction with nonce ${transaction.nonce} can't be included, because the transaction with nonce ${fromNonce} of the same fee payer failed: ${reason.message}
+Create the transaction again, to use the next free nonce.`
+          )
+    );
+  }
+}
+
+/**
+ * Updates the pending transactions of a fee payer with the status reported by the Mina node.
+ *
+ * - Transactions with a nonce below the nonce of the account are done, and no longer tracked.
+ * - Transactions with the status `UNKNOWN` were dropped from the mempool, and are sent again.
+ * - If sending a dropped transaction fails, it is invalidated together with all transactions of higher nonce,
+ *   so that the next transaction reuses its nonce.
+ */
+async function reconcilePendingTransactions(
+  publicKey: PublicKey,
+  graphqlEndpoint = defaultGraphqlEndpoint
+) {
+  if (getPendingTransactions(publicKey, graphqlEndpoint).length === 0) return;
+  let { account } = await fetchAccount({ publicKey }, graphqlEndpoint);
+  if (account === undefined) return;
+  let accountNonce = account.nonce;
+  let pending = getPendingTransactions(publicKey, graphqlEndpoint).filter(
+    ({ nonce }) => !nonce.lessThan(accountNonce).toBoolean()
+  );
+  pendingTransactions[pendingKey(publicKey, graphqlEndpoint)] = pending;
+
+  for (let transaction of pending) {
+    let status: TransactionStatus;
+    try {
+      status = await fetchTransactionStatus(transaction.id, graphqlEndpoint);
+    } catch {
+      // the status is checked again next time
+      continue;
+    }
+    if (status !== 'UNKNOWN') continue;
+    let error: Error | undefined;
+    if (transaction.resubmissions < maxResubmissions) {
+      transaction.resubmissions++;
+      try {
+        transaction.id = await transaction.resubmit();
+        continue;
+      } catch (err) {
+        error = err as Error;
+      }
+    }
+    invalidatePendingTransactions(
+      publicKey,
+      transaction.nonce,
+      Error(
+        `The transaction with nonce ${
+          transaction.nonce
+        } was dropped and could not be sent again${
+          error ? `: ${error.message}` : '.'
+        }`
+      ),
+      graphqlEndpoint
+    );
+    return;
+  }
+}
+
 /**
  * Sends a zkApp command (transaction) to the specified GraphQL endpoint.
  */
@@ -433,8 +946,11 @@ function sendZkapp(
   graphqlEndpoint = defaultGraphqlEndpoint,
   { timeout = defaultTimeout } = {}
 ) {
+  // a mutation which failed might still have been applied, so it is not repeated on any endpoint
   return makeGraphqlRequest(sendZkappQuery(json), graphqlEndpoint, {
     timeout,
+    retries: 0,
+    failover: false,
   });
 }
 
@@ -610,22 +1126,234 @@ async function fetchEvents(
   });
 }
 
+type FetchedActions = {
+  blockInfo: {
+    distanceFromMaxBlockHeight: number;
+  };
+  actionState: {
+    actionStateOne: string;
+    actionStateTwo: string;
+  };
+  actionData: {
+    accountUpdateId: string;
+    data: string[];
+  }[];
+};
+
+/**
+ * Range of actions to fetch, given by the action hashes (in base58) that precede the first action and
+ * that follow the last action. Both ends are optional.
+ */
+type ActionStatesStringified = {
+  fromActionHash?: string;
+  endActionHash?: string;
+};
+
+const getActionsQuery = (
+  publicKey: string,
+  tokenId: string,
+  actionStates: ActionStatesStringified = {}
+) => {
+  const { fromActionHash, endActionHash } = actionStates;
+  let input = `address: "${publicKey}", tokenId: "${tokenId}"`;
+  if (fromActionHash !== undefined) {
+    input += `, fromActionState: "${fromActionHash}"`;
+  }
+  if (endActionHash !== undefined) {
+    input += `, endActionState: "${endActionHash}"`;
+  }
+  return `{
+  actions(input: { ${input} }) {
+    blockInfo {
+      distanceFromMaxBlockHeight
+    }
+    actionState {
+      actionStateOne
+      actionStateTwo
+    }
+    actionData {
+      accountUpdateId
+      data
+    }
+  }
+}`;
+};
+
+/**
+ * Asynchronously fetches the actions dispatched by an account from the Mina Archive Node GraphQL API.
+ *
+ * The result has the same shape as `Mina.getActions()`: one entry per account update which dispatched actions,
+ * holding the actions of that account update together with the resulting action hash (in base58).
+ * Fetched actions are cached for the requested range, so that they can be accessed synchronously by `this.reducer.getActions()` with the same range, e.g. inside the prover.
+ * @async
+ * @param accountInfo - The account information object.
+ * @param accountInfo.publicKey - The account public key.
+ * @param [accountInfo.tokenId] - The optional token ID for the account.
+ * @param [accountInfo.actionStates] - The optional range of action hashes to fetch actions for.
+ * @param [graphqlEndpoint=archiveGraphqlEndpoint] - The GraphQL endpoint to query. Defaults to the Archive Node GraphQL API.
+ * @returns A promise that resolves to an array of objects containing the actions and the action hash after each account update.
+ * @throws If the GraphQL request fails, the response is invalid, or the fetched actions don't hash to the action state reported by the archive node.
+ * @example
+ * const accountInfo = { publicKey: 'B62qiwmXrWn7Cok5VhhB3KvCwyZ7NHHstFGbiU5n7m8s2RqqNW1p1wF' };
+ * const actions = await fetchActions(accountInfo);
+ * console.log(actions);
+ */
+async function fetchActions(
+  accountInfo: {
+    publicKey: string;
+    tokenId?: string;
+    actionStates?: ActionStatesStringified;
+  },
+  graphqlEndpoint = archiveGraphqlEndpoint
+) {
+  if (!graphqlEndpoint)
+    throw new Error(
+      'fetchActions: Specified GraphQL endpoint is undefined. Please specify a valid endpoint.'
+    );
+  const {
+    publicKey,
+    tokenId = TokenId.toBase58(TokenId.default),
+    actionStates = {},
+  } = accountInfo;
+  let [response, error] = await makeGraphqlRequest(
+    getActionsQuery(publicKey, tokenId, actionStates),
+    graphqlEndpoint
+  );
+  if (error) throw Error(error.statusText);
+  let fetchedActions = response?.data?.actions as FetchedActions[];
+  if (fetchedActions === undefined) {
+    throw Error(
+      `Failed to fetch actions data. Account: ${publicKey} Token: ${tokenId}`
+    );
+  }
+
+  // same as for events, we don't return actions from blocks at the best tip if there are several of them,
+  // because we can't guarantee that they won't fork
+  // TODO: remove once https://github.com/o1-labs/Archive-Node-API/issues/7 is resolved
+  let numberOfBestTipBlocks = fetchedActions.filter(
+    ({ blockInfo }) => blockInfo.distanceFromMaxBlockHeight === 0
+  ).length;
+  if (numberOfBestTipBlocks > 1) {
+    fetchedActions = fetchedActions.filter(
+      ({ blockInfo }) => blockInfo.distanceFromMaxBlockHeight !== 0
+    );
+  }
+
+  let actionsList: { hash: string; actions: string[][] }[] = [];
+  fetchedActions.forEach(({ actionState, actionData }) => {
+    // the archive node returns the action state before (`actionStateTwo`) and after (`actionStateOne`) this block
+    let latestActionsHash = Ledger.fieldOfBase58(actionState.actionStateTwo);
+
+    // group actions by the account update that dispatched them, since the action state is updated once per account update
+    let actionsByAccountUpdate: string[][][] = [];
+    let currentAccountUpdateId: string | undefined;
+    actionData.forEach(({ accountUpdateId, data }) => {
+      if (accountUpdateId === currentAccountUpdateId) {
+        actionsByAccountUpdate[actionsByAccountUpdate.length - 1].push(data);
+      } else {
+        currentAccountUpdateId = accountUpdateId;
+        actionsByAccountUpdate.push([data]);
+      }
+    });
+
+    // re-hash the actions, so that we can attach the intermediate hashes and check them against the archive node
+    for (let actions of actionsByAccountUpdate) {
+      let eventsHash = SequenceEvents.hash(
+        actions.map((action) => action.map((f) => Field(f)))
+      );
+      latestActionsHash = SequenceEvents.updateSequenceState(
+        latestActionsHash,
+        eventsHash
+      );
+      actionsList.push({
+        actions,
+        hash: Ledger.fieldToBase58(latestActionsHash),
+      });
+    }
+    let finalActionsHash = Ledger.fieldToBase58(latestActionsHash);
+    if (finalActionsHash !== actionState.actionStateOne) {
+      throw Error(
+        `fetchActions: Failed to derive the correct action hash for account ${publicKey}. Derived hash: ${finalActionsHash}, expected hash: ${actionState.actionStateOne}`
+      );
+    }
+  });
+
+  addCachedActions(
+    { publicKey, tokenId, actionStates },
+    actionsList,
+    graphqlEndpoint
+  );
+  return actionsList;
+}
+
 // removes the quotes on JSON keys
 function removeJsonQuotes(json: string) {
   let cleaned = JSON.stringify(JSON.parse(json), null, 2);
   return cleaned.replace(/\"(\S+)\"\s*:/gm, '$1:');
 }
 
-// TODO it seems we're not actually catching most errors here
+/**
+ * Sends a GraphQL request to the given endpoint, or one of its fallback endpoints.
+ *
+ * Endpoints are tried in order, except that endpoints which failed recently are tried last.
+ * If all of them fail with an error that is likely temporary, the request is retried after an exponentially growing delay.
+ * Pass `failover: false` to only use the given endpoint.
+ */
 async function makeGraphqlRequest(
   query: string,
   graphqlEndpoint = defaultGraphqlEndpoint,
-  { timeout = defaultTimeout } = {} as FetchConfig
+  {
+    timeout = defaultTimeout,
+    retries = retryConfig.retries,
+    failover = true,
+  } = {} as FetchConfig
 ) {
   if (graphqlEndpoint === 'none')
     throw Error(
       "Should have made a graphql request, but don't know to which endpoint. Try calling `setGraphqlEndpoint` first."
     );
+  let endpoints = [
+    graphqlEndpoint,
+    ...(failover ? fallbackEndpoints[graphqlEndpoint] ?? [] : []),
+  ];
+  let lastError: FetchError = {
+    statusCode: 500,
+    statusText: 'Unknown Error: No GraphQL request was made.',
+  };
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) await sleep(retryDelay(attempt));
+    // sort is stable, so endpoints with the same number of failures keep their order
+    let sortedEndpoints = [...endpoints].sort(
+      (a, b) => recentFailures(a) - recentFailures(b)
+    );
+    for (let endpoint of sortedEndpoints) {
+      let [response, error] = await makeSingleGraphqlRequest(
+        query,
+        endpoint,
+        timeout
+      );
+      if (error === undefined) {
+        delete endpointFailures[endpoint];
+        return [response, undefined] as [FetchResponse, undefined];
+      }
+      lastError = error;
+      if (!isTemporaryError(error))
+        return [undefined, error] as [undefined, FetchError];
+      endpointFailures[endpoint] = {
+        count: recentFailures(endpoint) + 1,
+        time: Date.now(),
+      };
+    }
+  }
+  return [undefined, lastError] as [undefined, FetchError];
+}
+
+async function makeSingleGraphqlRequest(
+  query: string,
+  graphqlEndpoint: string,
+  timeout: number
+) {
   const controller = new AbortController();
   const timer = setTimeout(() => {
     controller.abort();
@@ -641,11 +1369,32 @@ async function makeGraphqlRequest(
     });
     return await checkResponseStatus(response);
   } catch (error) {
-    clearTimeout(timer);
     return [undefined, inferError(error)] as [undefined, FetchError];
+  } finally {
+    clearTimeout(timer);
   }
 }
 
+function recentFailures(endpoint: string) {
+  let failures = endpointFailures[endpoint];
+  if (failures === undefined) return 0;
+  if (Date.now() - failures.time > failedEndpointCooldown) return 0;
+  return failures.count;
+}
+
+function isTemporaryError({ statusCode }: FetchError) {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+function retryDelay(attempt: number) {
+  let { initialDelay, maxDelay } = retryConfig;
+  return Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 async function checkResponseStatus(
   response: Response
 ): Promise<[FetchResponse, undefined] | [undefined, FetchError]> {
@@ -664,7 +1413,7 @@ async function checkResponseStatus(
 
 function inferError(error: unknown): FetchError {
   let errorMessage = JSON.stringify(error);
-  if (error instanceof AbortSignal) {
+  if (error instanceof Error && error.name === 'AbortError') {
     return { statusCode: 408, statusText: `Request Timeout: ${errorMessage}` };
   } else {
     return {
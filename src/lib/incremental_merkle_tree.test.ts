@@ -0,0 +1,72 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  MerkleTree,
+  IncrementalMerkleTree,
+  IncrementalMerkleWitness,
+} from 'snarkyjs';
+
+describe('Incremental Merkle Tree', () => {
+  beforeAll(async () => {
+    await isReady;
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('has the same root as a Merkle Tree with the same leaves', () => {
+    const HEIGHT = 4;
+    const tree = new IncrementalMerkleTree(HEIGHT);
+    const merkleTree = new MerkleTree(HEIGHT);
+    expect(tree.getRoot()).toEqual(merkleTree.getRoot());
+
+    for (let i = 0; i < 8; i++) {
+      tree.append(Field(i + 10));
+      merkleTree.setLeaf(BigInt(i), Field(i + 10));
+      expect(tree.getRoot()).toEqual(merkleTree.getRoot());
+    }
+    expect(tree.getSize()).toEqual(8n);
+    expect(() => tree.append(Field(1))).toThrow(/full/);
+  });
+
+  it('appends with a witness', () => {
+    const HEIGHT = 5;
+    class MyWitness extends IncrementalMerkleWitness(HEIGHT) {}
+    const tree = new IncrementalMerkleTree(HEIGHT);
+
+    for (let i = 0; i < 16; i++) {
+      const root = tree.getRoot();
+      const size = Field(tree.getSize());
+      const witness = new MyWitness(tree.getFrontier());
+
+      const newRoot = witness.append(root, size, Field(i));
+      tree.append(Field(i));
+      expect(newRoot).toEqual(tree.getRoot());
+    }
+  });
+
+  it('rejects a witness for the wrong root', () => {
+    class MyWitness extends IncrementalMerkleWitness(3) {}
+    const tree = new IncrementalMerkleTree(3);
+    tree.append(Field(1));
+    const witness = new MyWitness(tree.getFrontier());
+
+    expect(() => witness.append(Field(123), Field(1), Field(2))).toThrow();
+  });
+
+  it('can be recovered from its frontier', () => {
+    const tree = new IncrementalMerkleTree(6);
+    [1, 2, 3, 4, 5].forEach((x) => tree.append(Field(x)));
+
+    const recovered = IncrementalMerkleTree.fromFrontier(
+      6,
+      tree.getSize(),
+      tree.getFrontier()
+    );
+    expect(recovered.getRoot()).toEqual(tree.getRoot());
+    recovered.append(Field(6));
+    tree.append(Field(6));
+    expect(recovered.getRoot()).toEqual(tree.getRoot());
+  });
+});
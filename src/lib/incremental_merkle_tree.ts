@@ -0,0 +1,235 @@
+/**
+ * This file contains an append-only, incremental variant of the {@link MerkleTree}, which can be grown without knowing all of its leaves.
+ */
+
+import { Circuit, CircuitValue, arrayProp } from './circuit_value.js';
+import { Poseidon } from './hash.js';
+import { Field } from './core.js';
+
+// external API
+export {
+  IncrementalMerkleTree,
+  IncrementalMerkleWitness,
+  BaseIncrementalMerkleWitness,
+};
+
+/**
+ * An append-only [Merkle Tree](https://en.wikipedia.org/wiki/Merkle_tree), which only keeps track of its _frontier_:
+ * for every level, the last complete subtree which is a left child. This is all that is needed to compute the root and to append the next leaf,
+ * so an arbitrarily large log of leaves can be maintained with `height - 1` field elements.
+ *
+ * Leaves are filled from left to right, starting at index 0. The root is the same as the root of a {@link MerkleTree}
+ * of the same height, with the same leaves.
+ *
+ * ```ts
+ * let tree = new IncrementalMerkleTree(32);
+ * let witness = new MyIncrementalWitness(tree.getFrontier()); // witness for appending the next leaf
+ * tree.append(leaf);
+ * ```
+ */
+class IncrementalMerkleTree {
+  private zeroes: Field[];
+  private frontier: Field[];
+  private size: bigint;
+  // once the tree is full, the root can't be derived from the frontier anymore
+  private fullRoot?: Field;
+
+  /**
+   * Creates a new, empty incremental Merkle Tree.
+   * @param height The height of the tree.
+   * @returns A new IncrementalMerkleTree
+   */
+  constructor(public readonly height: number) {
+    if (height < 2) throw Error('height must be at least 2');
+    this.zeroes = emptyNodes(height);
+    this.frontier = this.zeroes.slice(0, height - 1);
+    this.size = 0n;
+  }
+
+  /**
+   * Recovers an incremental Merkle Tree from its frontier and size, for example as stored after a previous run.
+   * @param height The height of the tree.
+   * @param size The number of leaves that were appended.
+   * @param frontier The frontier of the tree, as returned by {@link IncrementalMerkleTree.getFrontier}.
+   * @returns An IncrementalMerkleTree
+   */
+  static fromFrontier(height: number, size: bigint, frontier: Field[]) {
+    let tree = new IncrementalMerkleTree(height);
+    if (frontier.length !== height - 1) {
+      throw Error(
+        `Length of frontier ${frontier.length} doesn't match tree height ${height}-1.`
+      );
+    }
+    if (size >= tree.leafCount) {
+      throw Error(`size ${size} is out of range for ${tree.leafCount} leaves.`);
+    }
+    tree.frontier = [...frontier];
+    tree.size = size;
+    return tree;
+  }
+
+  /**
+   * Returns the root of the tree.
+   * @returns The root of the tree.
+   */
+  getRoot(): Field {
+    if (this.fullRoot !== undefined) return this.fullRoot;
+    let node = this.zeroes[0];
+    let index = this.size;
+    for (let level = 0; level < this.height - 1; level++) {
+      node =
+        index % 2n === 1n
+          ? Poseidon.hash([this.frontier[level], node])
+          : Poseidon.hash([node, this.zeroes[level]]);
+      index /= 2n;
+    }
+    return node;
+  }
+
+  /**
+   * Returns the number of leaves that were appended so far, which is also the index of the next leaf.
+   * @returns The number of leaves.
+   */
+  getSize(): bigint {
+    return this.size;
+  }
+
+  /**
+   * Returns the frontier of the tree. This is the witness needed to prove that the next leaf is appended correctly,
+   * see {@link BaseIncrementalMerkleWitness}.
+   * @returns The frontier of the tree.
+   */
+  getFrontier(): Field[] {
+    return [...this.frontier];
+  }
+
+  /**
+   * Appends a leaf to the tree.
+   * @param leaf Value of the new leaf.
+   */
+  append(leaf: Field) {
+    if (this.size >= this.leafCount) {
+      throw Error(
+        `tree is full, it can't hold more than ${this.leafCount} leaves.`
+      );
+    }
+    let node = leaf;
+    let index = this.size;
+    this.size++;
+    for (let level = 0; level < this.height - 1; level++) {
+      if (index % 2n === 0n) {
+        // the node is a left child, so it becomes part of the frontier
+        this.frontier[level] = node;
+        return;
+      }
+      node = Poseidon.hash([this.frontier[level], node]);
+      index /= 2n;
+    }
+    // we only get here when appending the last leaf
+    this.fullRoot = node;
+  }
+
+  /**
+   * Returns the amount of leaf nodes.
+   * @returns Amount of leaf nodes.
+   */
+  get leafCount(): bigint {
+    return 2n ** BigInt(this.height - 1);
+  }
+}
+
+/**
+ * The {@link BaseIncrementalMerkleWitness} class defines a circuit-compatible witness for appending a leaf to an {@link IncrementalMerkleTree}.
+ *
+ * It consists of the frontier of the tree before appending, and lets a smart contract grow a tree of which it only stores the root and size.
+ */
+class BaseIncrementalMerkleWitness extends CircuitValue {
+  static height: number;
+  frontier: Field[];
+  height(): number {
+    return (this.constructor as any).height;
+  }
+
+  /**
+   * Takes the frontier of an {@link IncrementalMerkleTree} and turns it into a circuit-compatible witness.
+   * @param frontier Frontier of the tree, as returned by {@link IncrementalMerkleTree.getFrontier}.
+   * @returns A circuit-compatible witness.
+   */
+  constructor(frontier: Field[]) {
+    super();
+    let height = frontier.length + 1;
+    if (height !== this.height()) {
+      throw Error(
+        `Length of frontier ${height}-1 doesn't match static tree height ${this.height()}.`
+      );
+    }
+    this.frontier = frontier;
+  }
+
+  /**
+   * Appends a leaf to the tree with the given root and size.
+   *
+   * Asserts that this witness is valid for the old root and size, and returns the new root. The new size is `size + 1`.
+   * Fails if the tree is full.
+   *
+   * ```ts
+   * let root = this.root.get();
+   * this.root.assertEquals(root);
+   * let size = this.size.get();
+   * this.size.assertEquals(size);
+   * this.root.set(witness.append(root, size, leaf));
+   * this.size.set(size.add(1));
+   * ```
+   * @param root The root of the tree before appending.
+   * @param size The number of leaves in the tree before appending.
+   * @param leaf Value of the new leaf.
+   * @returns The root of the tree after appending.
+   */
+  append(root: Field, size: Field, leaf: Field): Field {
+    let n = this.height() - 1;
+    let zeroes = emptyNodes(this.height());
+    // the bits of the size determine whether the path to the new leaf goes left or right
+    let isRight = size.toBits(n);
+    let oldRoot = zeroes[0];
+    let newRoot = leaf;
+
+    // nodes to the left of the path are taken from the frontier, nodes to the right are still empty
+    for (let i = 0; i < n; i++) {
+      let sibling = Circuit.if(isRight[i], this.frontier[i], zeroes[i]);
+      oldRoot = Poseidon.hash([
+        Circuit.if(isRight[i], sibling, oldRoot),
+        Circuit.if(isRight[i], oldRoot, sibling),
+      ]);
+      newRoot = Poseidon.hash([
+        Circuit.if(isRight[i], sibling, newRoot),
+        Circuit.if(isRight[i], newRoot, sibling),
+      ]);
+    }
+    oldRoot.assertEquals(root);
+    return newRoot;
+  }
+}
+
+/**
+ * Returns a circuit-compatible witness for appending to an {@link IncrementalMerkleTree} of a specific height.
+ * @param height Height of the tree that this witness belongs to.
+ * @returns A circuit-compatible incremental Merkle Witness.
+ */
+function IncrementalMerkleWitness(
+  height: number
+): typeof BaseIncrementalMerkleWitness {
+  class IncrementalMerkleWitness_ extends BaseIncrementalMerkleWitness {
+    static height = height;
+  }
+  arrayProp(Field, height - 1)(IncrementalMerkleWitness_.prototype, 'frontier');
+  return IncrementalMerkleWitness_;
+}
+
+// roots of empty subtrees, for every level
+function emptyNodes(height: number) {
+  let zeroes = [Field(0)];
+  for (let i = 1; i < height; i++) {
+    zeroes.push(Poseidon.hash([zeroes[i - 1], zeroes[i - 1]]));
+  }
+  return zeroes;
+}
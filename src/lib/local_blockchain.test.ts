@@ -0,0 +1,393 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  SmartContract,
+  AccountUpdate,
+  State,
+  state,
+  method,
+  Reducer,
+  UInt32,
+  UInt64,
+  Permissions,
+  Bool,
+} from 'snarkyjs';
+
+class Counter extends SmartContract {
+  @state(Field) x = State<Field>();
+  reducer = Reducer({ actionType: Field });
+  events = { set: Field };
+
+  @method set(y: Field) {
+    this.x.set(y);
+    this.emitEvent('set', y);
+    this.reducer.dispatch(y);
+  }
+}
+
+describe('LocalBlockchain snapshots', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappAddress: PublicKey;
+  let zkapp: Counter;
+  let deployed: number;
+
+  async function set(y: number) {
+    let tx = await Mina.transaction(feePayer, () => zkapp.set(Field(y)));
+    await tx.prove();
+    await tx.sign([feePayerKey]).send();
+  }
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    let zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new Counter(zkappAddress);
+
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+    deployed = Local.snapshot();
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('reverts the ledger, network state, events and actions', async () => {
+    let balance = Local.getAccount(feePayer).balance;
+    Local.setBlockchainLength(UInt32.from(5));
+    await set(1);
+    expect(zkapp.x.get()).toEqual(Field(1));
+    expect(Local.getActions(zkappAddress).length).toEqual(1);
+    expect((await zkapp.fetchEvents()).length).toEqual(1);
+
+    Local.revert(deployed);
+    expect(zkapp.x.get()).toEqual(Field(0));
+    expect(Local.getAccount(feePayer).balance).toEqual(balance);
+    expect(Local.getNetworkState().blockchainLength).toEqual(UInt32.zero);
+    expect(Local.getActions(zkappAddress)).toEqual([]);
+    expect(await zkapp.fetchEvents()).toEqual([]);
+  });
+
+  it('can revert to the same snapshot several times', async () => {
+    for (let i = 0; i < 2; i++) {
+      Local.revert(deployed);
+      await set(2);
+      expect(zkapp.x.get()).toEqual(Field(2));
+      expect(Local.getActions(zkappAddress).length).toEqual(1);
+    }
+  });
+
+  it('discards snapshots taken after the reverted one', async () => {
+    Local.revert(deployed);
+    await set(3);
+    let later = Local.snapshot();
+    let newAccount = PrivateKey.random().toPublicKey();
+    Local.addAccount(newAccount, UInt64.from(1e9).toString());
+
+    Local.revert(later);
+    expect(zkapp.x.get()).toEqual(Field(3));
+    expect(Local.hasAccount(newAccount)).toEqual(false);
+
+    Local.revert(deployed);
+    expect(zkapp.x.get()).toEqual(Field(0));
+    expect(() => Local.revert(later)).toThrow(/doesn't exist/);
+  });
+});
+
+describe('LocalBlockchain receipts', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappAddress: PublicKey;
+  let zkapp: Counter;
+
+  async function send(f: () => void) {
+    let tx = await Mina.transaction(feePayer, f);
+    await tx.prove();
+    return tx.sign([feePayerKey]).send();
+  }
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    let zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new Counter(zkappAddress);
+
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('reports state changes, events and actions', async () => {
+    await send(() => zkapp.set(Field(1)));
+    let receipt = await (await send(() => zkapp.set(Field(2)))).receipt();
+
+    expect(receipt.status).toEqual('applied');
+    expect(receipt.errors).toEqual([]);
+    expect(receipt.feePayer).toEqual(feePayer);
+    let [update] = receipt.accountUpdates;
+    expect(update.publicKey).toEqual(zkappAddress);
+    expect(update.stateChanges).toEqual([
+      { index: 0, before: Field(1), after: Field(2) },
+    ]);
+    expect(update.events).toEqual([[Field(2)]]);
+    expect(update.actions).toEqual([[Field(2)]]);
+  });
+
+  it('reports balance changes, including the account creation fee', async () => {
+    let receiver = PrivateKey.random().toPublicKey();
+    let txId = await send(() => {
+      let sender = AccountUpdate.createSigned(feePayer);
+      let receiverUpdate = AccountUpdate.create(receiver);
+      receiverUpdate.body.implicitAccountCreationFee = Bool(true);
+      sender.send({ to: receiverUpdate, amount: UInt64.from(2e9) });
+    });
+    let { accountUpdates } = await txId.receipt();
+    expect(accountUpdates.map((u) => u.balanceChange.toString())).toEqual([
+      '-2000000000',
+      String(2e9 - Number(Mina.accountCreationFee().toBigInt())),
+    ]);
+    expect(accountUpdates.map((u) => u.isNewAccount)).toEqual([false, true]);
+  });
+
+  it('attaches a receipt with error codes to the error of a failed transaction', async () => {
+    let error: any;
+    try {
+      await send(() => {
+        let update = AccountUpdate.create(zkappAddress);
+        update.account.nonce.assertEquals(UInt32.from(100));
+      });
+    } catch (err) {
+      error = err;
+    }
+    expect(error.receipt.status).toEqual('failed');
+    expect(error.receipt.accountUpdates).toEqual([]);
+    expect(error.receipt.errors).toContainEqual({
+      code: 'Account_nonce_precondition_unsatisfied',
+      accountUpdateIndex: 0,
+      publicKey: zkappAddress,
+      tokenId: Field(1),
+    });
+  });
+});
+
+describe('LocalBlockchain block production', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappAddress: PublicKey;
+  let zkapp: Counter;
+
+  async function send(f: () => void, key = feePayerKey) {
+    let sender = key.toPublicKey();
+    let tx = await Mina.transaction(sender, f);
+    await tx.prove();
+    return tx.sign([key]).send();
+  }
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({
+      proofsEnabled: false,
+      blockProduction: 'manual',
+    });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    let zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new Counter(zkappAddress);
+
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+    Local.produceBlock();
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('includes transactions when a block is produced', async () => {
+    let txId = await send(() => zkapp.set(Field(1)));
+    let included = txId.wait();
+    expect(zkapp.x.get()).toEqual(Field(0));
+
+    let height = Local.getNetworkState().blockchainLength;
+    let block = Local.produceBlock();
+    await included;
+    expect(zkapp.x.get()).toEqual(Field(1));
+    expect(block.height).toEqual(height.add(1));
+    expect(block.transactions).toEqual([
+      { hash: txId.hash(), status: 'applied', receipt: await txId.receipt() },
+    ]);
+  });
+
+  it('applies transactions in order, and fills in block info for events', async () => {
+    let otherKey = Local.testAccounts[1].privateKey;
+    let first = await send(() => zkapp.set(Field(2)));
+    let second = await send(() => zkapp.set(Field(3)), otherKey);
+    let block = Local.produceBlock();
+    await Promise.all([first.wait(), second.wait()]);
+    expect(zkapp.x.get()).toEqual(Field(3));
+
+    let events = await zkapp.fetchEvents(block.height);
+    expect(events.map((e) => e.event)).toEqual([Field(2), Field(3)]);
+    expect(events.map((e) => e.transactionHash)).toEqual([
+      first.hash(),
+      second.hash(),
+    ]);
+    events.forEach((e) => {
+      expect(e.blockHeight).toEqual(block.height);
+      expect(e.blockHash).toEqual(block.blockHash);
+      expect(e.parentBlockHash).toEqual(block.parentBlockHash);
+    });
+  });
+
+  it('reports failed transactions', async () => {
+    // both transactions use the same nonce, because the first one isn't included yet
+    let first = await send(() => zkapp.set(Field(4)));
+    let second = await send(() => zkapp.set(Field(5)));
+    let block = Local.produceBlock();
+    await first.wait();
+    await expect(second.wait()).rejects.toThrow();
+    expect(block.transactions.map((t) => t.status)).toEqual([
+      'applied',
+      'failed',
+    ]);
+    expect(zkapp.x.get()).toEqual(Field(4));
+  });
+
+  it('produces blocks automatically after a number of transactions', async () => {
+    let Local = Mina.LocalBlockchain({
+      proofsEnabled: false,
+      blockProduction: { transactionsPerBlock: 2 },
+    });
+    Mina.setActiveInstance(Local);
+    let [a, b, { publicKey: receiver }] = Local.testAccounts;
+    let pay = (key: PrivateKey) =>
+      send(() => {
+        AccountUpdate.createSigned(key.toPublicKey()).send({
+          to: receiver,
+          amount: UInt64.from(1e9),
+        });
+      }, key);
+
+    await pay(a.privateKey);
+    expect(Local.getNetworkState().blockchainLength).toEqual(UInt32.zero);
+    await pay(b.privateKey);
+    expect(Local.getNetworkState().blockchainLength).toEqual(UInt32.one);
+  });
+});
+
+describe('LocalBlockchain genesis', () => {
+  beforeAll(async () => {
+    await isReady;
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('derives the test accounts from a seed', () => {
+    let addresses = (seed: number) =>
+      Mina.LocalBlockchain({ genesis: { seed } }).testAccounts.map(
+        ({ publicKey }) => publicKey.toBase58()
+      );
+    expect(addresses(1)).toHaveLength(10);
+    expect(addresses(1)).toEqual(addresses(1));
+    expect(addresses(2)).not.toEqual(addresses(1));
+  });
+
+  it('creates the configured accounts', () => {
+    let ownerKey = PrivateKey.random();
+    let owner = ownerKey.toPublicKey();
+    let holder = PrivateKey.random().toPublicKey();
+    let permissions = {
+      ...Permissions.default(),
+      editState: Permissions.signature(),
+    };
+    let Local = Mina.LocalBlockchain({
+      genesis: {
+        accounts: [
+          {
+            privateKey: ownerKey,
+            balance: 5e9,
+            appState: [Field(1), Field(2)],
+          },
+          { publicKey: holder, balance: 7, tokenOwner: owner },
+          { publicKey: holder, permissions },
+        ],
+      },
+    });
+    expect(Local.testAccounts).toEqual([
+      { privateKey: ownerKey, publicKey: owner },
+    ]);
+
+    let ownerAccount = Local.getAccount(owner);
+    expect(ownerAccount.balance).toEqual(UInt64.from(5e9));
+    expect(ownerAccount.nonce).toEqual(UInt32.zero);
+    expect(ownerAccount.zkapp?.appState.slice(0, 3)).toEqual([
+      Field(1),
+      Field(2),
+      Field(0),
+    ]);
+
+    let tokenId = AccountUpdate.defaultAccountUpdate(owner).token().id;
+    expect(Local.getAccount(holder, tokenId).balance).toEqual(UInt64.from(7));
+    expect(Local.getAccount(holder).permissions.editState).toEqual(
+      Permissions.signature()
+    );
+  });
+
+  it('uses a fixed genesis timestamp', () => {
+    let timestamp = Date.UTC(2023, 0, 1);
+    let Local = Mina.LocalBlockchain({ genesis: { timestamp } });
+    expect(Local.getNetworkConstants().genesisTimestamp).toEqual(
+      UInt64.from(timestamp)
+    );
+    expect(Local.currentSlot()).toEqual(UInt32.zero);
+    Local.incrementGlobalSlot(5);
+    expect(Local.currentSlot()).toEqual(UInt32.from(5));
+  });
+
+  it('creates the same transactions in every run', async () => {
+    async function payment() {
+      let Local = Mina.LocalBlockchain({
+        proofsEnabled: false,
+        genesis: { seed: 1, timestamp: 0 },
+      });
+      Mina.setActiveInstance(Local);
+      let [sender, receiver] = Local.testAccounts;
+      let tx = await Mina.transaction(sender.publicKey, () => {
+        AccountUpdate.createSigned(sender.publicKey).send({
+          to: receiver.publicKey,
+          amount: UInt64.from(1e9),
+        });
+      });
+      return tx.sign([sender.privateKey]).toJSON();
+    }
+    expect(await payment()).toEqual(await payment());
+  });
+});
@@ -1,4 +1,14 @@
-import { isReady, shutdown, Field, MerkleMap } from 'snarkyjs';
+import {
+  isReady,
+  shutdown,
+  Field,
+  MerkleMap,
+  Poseidon,
+  FileMerkleNodeStore,
+} from 'snarkyjs';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('Merkle Map', () => {
   beforeAll(async () => {
@@ -42,4 +52,70 @@ describe('Merkle Map', () => {
         witnessRoot.equals(map.getRoot()).toBoolean()
     );
   });
+
+  it('asserts non-membership', () => {
+    const map = new MerkleMap();
+    const key = Field.random();
+    map.set(Field.random(), Field(1));
+
+    map.getWitness(key).assertNonMembership(map.getRoot(), key);
+
+    map.set(key, Field(2));
+    expect(() =>
+      map.getWitness(key).assertNonMembership(map.getRoot(), key)
+    ).toThrow();
+  });
+
+  it('supports a custom key width', () => {
+    const SmallMap = MerkleMap.create({ keyBits: 16 });
+    const map = new SmallMap();
+    const key = Field(1000);
+    map.set(key, Field(1));
+
+    const witness = map.getWitness(key);
+    expect(witness).toBeInstanceOf(SmallMap.Witness);
+    expect(witness.siblings.length).toEqual(16);
+    const [root, witnessKey] = witness.computeRootAndKey(Field(1));
+    expect(root).toEqual(map.getRoot());
+    expect(witnessKey).toEqual(key);
+
+    expect(() => map.set(Field(2 ** 16), Field(1))).toThrow(/out of range/);
+  });
+
+  it('supports hashed leaves', () => {
+    const HashedMap = MerkleMap.create({
+      keyBits: 8,
+      hashLeaf: (value) => Poseidon.hash([value]),
+    });
+    const map = new HashedMap();
+    const key = Field(3);
+    map.set(key, Field(5));
+
+    expect(map.get(key)).toEqual(Field(5));
+    expect(map.tree.getNode(0, 192n)).toEqual(Poseidon.hash([Field(5)]));
+    const [root] = map.getWitness(key).computeRootAndKey(Field(5));
+    expect(root).toEqual(map.getRoot());
+    map.getWitness(Field(4)).assertNonMembership(map.getRoot(), Field(4));
+  });
+
+  it('recovers hashed values after reopening a file store', () => {
+    const HashedMap = MerkleMap.create({
+      keyBits: 8,
+      hashLeaf: (value) => Poseidon.hash([value]),
+    });
+    const dir = mkdtempSync(join(tmpdir(), 'merkle-map-'));
+    try {
+      const path = join(dir, 'map');
+      const store = FileMerkleNodeStore.open(path);
+      const map = new HashedMap(store);
+      map.set(Field(3), Field(5));
+      store.flush();
+
+      const reopened = new HashedMap(FileMerkleNodeStore.open(path));
+      expect(reopened.get(Field(3))).toEqual(Field(5));
+      expect(reopened.getRoot()).toEqual(map.getRoot());
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
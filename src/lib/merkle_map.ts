@@ -1,40 +1,105 @@
 import { arrayProp, CircuitValue, Circuit } from './circuit_value.js';
 import { Field, Bool } from './core.js';
 import { Poseidon } from './hash.js';
-import { MerkleTree, MerkleWitness } from './merkle_tree.js';
+import { MerkleNodeStore, MerkleTree, MerkleWitness } from './merkle_tree.js';
 
-const bits = 255;
+const defaultKeyBits = 255;
 const printDebugs = false;
+// if leaves are hashed, the values can't be recovered from the tree, so they are kept in its store, one level below the leaves
+const valueLevel = -1;
+
+/**
+ * Options to configure a {@link MerkleMap}, see {@link MerkleMap.create}.
+ */
+type MerkleMapOptions = {
+  /**
+   * Number of bits of the keys. Keys have to be smaller than `2^keyBits`, and witnesses contain `keyBits` siblings.
+   * Defaults to 255, so that every field element can be used as a key.
+   */
+  keyBits?: number;
+  /**
+   * Function which maps a value to the leaf stored in the tree. Defaults to storing the value itself.
+   *
+   * Empty leaves are always `Field(0)`, regardless of this function.
+   * The values themselves are kept in the map's {@link MerkleNodeStore}, at level -1, so that they survive reopening a persistent store.
+   */
+  hashLeaf?: (value: Field) => Field;
+};
 
 export class MerkleMap {
   tree: InstanceType<typeof MerkleTree>;
+  readonly keyBits: number;
+  readonly Witness: typeof BaseMerkleMapWitness;
+  private hashLeaf?: (value: Field) => Field;
 
   // ------------------------------------------------
 
   /**
-   * Creates a new, empty Merkle Map.
+   * Creates a new Merkle Map, with keys of 255 bits and values stored directly in the leaves.
+   *
+   * Use {@link MerkleMap.create} to configure the key width or leaf hashing.
+   * @param store Optional storage backend for the nodes of the underlying {@link MerkleTree}. Defaults to an in-memory store.
    * @returns A new MerkleMap
    */
-  constructor() {
-    if (bits > 255) {
-      throw Error('bits must be <= 255');
-    }
-    if (bits !== 255) {
-      console.warn(
-        'bits set to',
-        bits + '. Should be set to 255 in production to avoid collisions'
-      );
+  constructor(
+    store?: MerkleNodeStore,
+    { keyBits = defaultKeyBits, hashLeaf }: MerkleMapOptions = {}
+  ) {
+    if (keyBits > 255 || keyBits < 1) {
+      throw Error('keyBits must be between 1 and 255');
     }
-    this.tree = new MerkleTree(bits + 1);
+    this.keyBits = keyBits;
+    this.hashLeaf = hashLeaf;
+    // classes created with `MerkleMap.create()` bring their own witness class
+    this.Witness =
+      (this.constructor as { Witness?: typeof BaseMerkleMapWitness }).Witness ??
+      (keyBits === defaultKeyBits && hashLeaf === undefined
+        ? MerkleMapWitness
+        : createMerkleMapWitness(keyBits, hashLeaf));
+    this.tree = new MerkleTree(keyBits + 1, store);
+  }
+
+  /**
+   * Creates a Merkle Map class with a custom key width and leaf hashing, together with a matching witness class.
+   *
+   * Maps with smaller keys need proportionally fewer constraints to verify witnesses inside a circuit.
+   *
+   * ```ts
+   * const SmallMap = MerkleMap.create({ keyBits: 64 });
+   * class SmallMapWitness extends SmallMap.Witness {}
+   *
+   * let map = new SmallMap();
+   * map.set(Field(1), Field(2));
+   * let witness: SmallMapWitness = map.getWitness(Field(1));
+   * ```
+   * @param options The key width and leaf hashing of the map.
+   * @returns A MerkleMap class with a static `Witness` property.
+   */
+  static create(options: MerkleMapOptions = {}) {
+    let Witness = createMerkleMapWitness(
+      options.keyBits ?? defaultKeyBits,
+      options.hashLeaf
+    );
+    return class MerkleMap_ extends MerkleMap {
+      static Witness = Witness;
+      constructor(store?: MerkleNodeStore) {
+        super(store, options);
+      }
+    };
   }
 
   // ------------------------------------------------
 
   _keyToIndex(key: Field) {
+    if (this.keyBits < 255 && key.toBigInt() >= 1n << BigInt(this.keyBits)) {
+      throw Error(
+        `key ${key} is out of range for a Merkle Map with ${this.keyBits}-bit keys.`
+      );
+    }
     // the bit map is reversed to make reconstructing the key during proving more convenient
     let keyBits = key
       .toBits()
-      .slice(0, bits)
+      .slice(0, this.keyBits)
       .reverse()
       .map((b) => b.toBoolean());
 
@@ -56,7 +121,12 @@ export class MerkleMap {
    */
   set(key: Field, value: Field) {
     const index = this._keyToIndex(key);
-    this.tree.setLeaf(index, value);
+    if (this.hashLeaf === undefined) {
+      this.tree.setLeaf(index, value);
+    } else {
+      this.tree.store.set(valueLevel, index, value);
+      this.tree.setLeaf(index, this.hashLeaf(value));
+    }
   }
 
   // ------------------------------------------------
@@ -68,6 +138,9 @@ export class MerkleMap {
    */
   get(key: Field) {
     const index = this._keyToIndex(key);
+    if (this.hashLeaf !== undefined) {
+      return this.tree.store.get(valueLevel, index) ?? Field(0);
+    }
     return this.tree.getNode(0, index);
   }
 
@@ -84,11 +157,11 @@ export class MerkleMap {
   /**
    * Returns a circuit-compatible witness (also known as [Merkle Proof or Merkle Witness](https://computersciencewiki.org/index.php/Merkle_proof)) for the given key.
    * @param key The key to make a witness for.
-   * @returns A MerkleMapWitness, which can be used to assert changes to the MerkleMap, and the witness's key.
+   * @returns A witness of the class `this.Witness`, which can be used to assert changes to the MerkleMap, and the witness's key.
    */
-  getWitness(key: Field) {
+  getWitness(key: Field): BaseMerkleMapWitness {
     const index = this._keyToIndex(key);
-    class MyMerkleWitness extends MerkleWitness(bits + 1) {}
+    class MyMerkleWitness extends MerkleWitness(this.keyBits + 1) {}
     const witness = new MyMerkleWitness(this.tree.getWitness(index));
 
     if (printDebugs) {
@@ -102,20 +175,27 @@ export class MerkleMap {
         'key bits',
         key
           .toBits()
-          .slice(0, bits)
+          .slice(0, this.keyBits)
           .map((l) => (l.toBoolean() ? '1' : '0'))
           .join(', ')
       );
     }
-    return new MerkleMapWitness(witness.isLeft, witness.path);
+    return new this.Witness(witness.isLeft, witness.path);
   }
 }
 
 // =======================================================
 
-export class MerkleMapWitness extends CircuitValue {
-  @arrayProp(Bool, bits) isLefts: Bool[];
-  @arrayProp(Field, bits) siblings: Field[];
+/**
+ * The {@link BaseMerkleMapWitness} class defines a circuit-compatible base class for witnesses of a {@link MerkleMap}.
+ *
+ * The default witness class for 255-bit keys is {@link MerkleMapWitness}; maps created with {@link MerkleMap.create} have their own witness class.
+ */
+export class BaseMerkleMapWitness extends CircuitValue {
+  static keyBits: number;
+  static hashLeaf?: (value: Field) => Field;
+  isLefts: Bool[];
+  siblings: Field[];
 
   constructor(isLefts: Bool[], siblings: Field[]) {
     super();
@@ -123,20 +203,53 @@ export class MerkleMapWitness extends CircuitValue {
     this.siblings = siblings;
   }
 
+  keyBits(): number {
+    return (this.constructor as typeof BaseMerkleMapWitness).keyBits;
+  }
+
+  /**
+   * Returns the leaf which is stored in the tree for a given value.
+   */
+  leaf(value: Field): Field {
+    let { hashLeaf } = this.constructor as typeof BaseMerkleMapWitness;
+    return hashLeaf === undefined ? value : hashLeaf(value);
+  }
+
   /**
    * computes the merkle tree root for a given value and the key for this witness
    * @param value The value to compute the root for.
    * @returns A tuple of the computed merkle root, and the key that is connected to the path updated by this witness.
    */
   computeRootAndKey(value: Field) {
-    let hash = value;
+    return this.computeRootAndKeyFromLeaf(this.leaf(value));
+  }
+
+  /**
+   * Asserts that the given key is not contained in the Merkle Map with the given root,
+   * i.e., that the key maps to an empty leaf.
+   *
+   * ```ts
+   * let witness = map.getWitness(key); // works for any key, whether it is set or not
+   * witness.assertNonMembership(root, key); // fails if key is set
+   * ```
+   * @param root The root of the Merkle Map.
+   * @param key The key that should not be in the map.
+   */
+  assertNonMembership(root: Field, key: Field) {
+    let [emptyRoot, witnessKey] = this.computeRootAndKeyFromLeaf(Field(0));
+    emptyRoot.assertEquals(root);
+    witnessKey.assertEquals(key);
+  }
+
+  private computeRootAndKeyFromLeaf(leaf: Field) {
+    let hash = leaf;
 
     const isLeft = this.isLefts;
     const siblings = this.siblings;
 
     let key = Field(0);
 
-    for (let i = 0; i < bits; i++) {
+    for (let i = 0; i < this.keyBits(); i++) {
       const left = Circuit.if(isLeft[i], hash, siblings[i]);
       const right = Circuit.if(isLeft[i], siblings[i], hash);
       hash = Poseidon.hash([left, right]);
@@ -149,3 +262,22 @@ export class MerkleMapWitness extends CircuitValue {
     return [hash, key];
   }
 }
+
+export class MerkleMapWitness extends BaseMerkleMapWitness {
+  static keyBits = defaultKeyBits;
+  @arrayProp(Bool, defaultKeyBits) isLefts: Bool[];
+  @arrayProp(Field, defaultKeyBits) siblings: Field[];
+}
+
+function createMerkleMapWitness(
+  keyBits: number,
+  hashLeaf?: (value: Field) => Field
+): typeof BaseMerkleMapWitness {
+  class MerkleMapWitness_ extends BaseMerkleMapWitness {
+    static keyBits = keyBits;
+    static hashLeaf = hashLeaf;
+  }
+  arrayProp(Bool, keyBits)(MerkleMapWitness_.prototype, 'isLefts');
+  arrayProp(Field, keyBits)(MerkleMapWitness_.prototype, 'siblings');
+  return MerkleMapWitness_;
+}
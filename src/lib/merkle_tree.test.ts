@@ -5,7 +5,12 @@ import {
   Field,
   MerkleTree,
   MerkleWitness,
+  MemoryMerkleNodeStore,
+  FileMerkleNodeStore,
 } from 'snarkyjs';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('Merkle Tree', () => {
   beforeAll(async () => {
@@ -90,4 +95,91 @@ describe('Merkle Tree', () => {
     };
     expect(witness.toJSON()).toEqual(expectedWitness);
   });
+
+  it('batch updates yield the same tree as single updates', () => {
+    const leaves = [
+      { index: 3n, value: Field(1) },
+      { index: 200n, value: Field(2) },
+      { index: 4n, value: Field(3) },
+      { index: 3n, value: Field(4) },
+    ];
+    const tree = new MerkleTree(10);
+    leaves.forEach(({ index, value }) => tree.setLeaf(index, value));
+
+    const batchTree = new MerkleTree(10);
+    batchTree.setLeaves(leaves);
+    expect(batchTree.getRoot()).toEqual(tree.getRoot());
+    expect(batchTree.getNode(0, 3n)).toEqual(Field(4));
+    expect(batchTree.validate(200n)).toBe(true);
+  });
+
+  it('builds a tree from leaves', () => {
+    const values = [1, 2, 3, 4, 5].map(Field);
+    const tree = new MerkleTree(4);
+    values.forEach((value, i) => tree.setLeaf(BigInt(i), value));
+
+    expect(MerkleTree.fromLeaves(4, values).getRoot()).toEqual(tree.getRoot());
+    expect(() => MerkleTree.fromLeaves(2, values)).toThrow(/out of range/);
+  });
+
+  it('shares nodes through a custom store', () => {
+    const store = new MemoryMerkleNodeStore();
+    const tree = new MerkleTree(8, store);
+    tree.setLeaf(5n, Field(42));
+
+    const sameTree = new MerkleTree(8, store);
+    expect(sameTree.getRoot()).toEqual(tree.getRoot());
+    expect(sameTree.getNode(0, 5n)).toEqual(Field(42));
+  });
+
+  describe('FileMerkleNodeStore', () => {
+    let dir: string;
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'merkle-tree-'));
+    });
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('recovers root and witnesses after reopening', () => {
+      const path = join(dir, 'tree');
+      const store = FileMerkleNodeStore.open(path);
+      const tree = new MerkleTree(16, store);
+      tree.fill([1, 2, 3].map(Field));
+      tree.setLeaf(1000n, Field(4));
+      store.flush();
+
+      const reopened = new MerkleTree(16, FileMerkleNodeStore.open(path));
+      expect(reopened.getRoot()).toEqual(tree.getRoot());
+      expect(reopened.getWitness(1000n)).toEqual(tree.getWitness(1000n));
+    });
+
+    it('does not persist unflushed changes', () => {
+      const path = join(dir, 'tree');
+      const store = FileMerkleNodeStore.open(path);
+      const tree = new MerkleTree(4, store);
+      tree.setLeaf(0n, Field(1));
+      store.flush();
+      const root = tree.getRoot();
+      tree.setLeaf(1n, Field(2));
+
+      const reopened = new MerkleTree(4, FileMerkleNodeStore.open(path));
+      expect(reopened.getRoot()).toEqual(root);
+    });
+
+    it('writes snapshots that can be reopened', () => {
+      const path = join(dir, 'tree');
+      const store = FileMerkleNodeStore.open(path);
+      const tree = new MerkleTree(4, store);
+      tree.setLeaf(0n, Field(1));
+      tree.setLeaf(0n, Field(2));
+      store.snapshot(join(dir, 'snapshot'));
+      store.snapshot();
+
+      const fromSnapshot = FileMerkleNodeStore.open(join(dir, 'snapshot'));
+      expect(new MerkleTree(4, fromSnapshot).getRoot()).toEqual(tree.getRoot());
+      const compacted = FileMerkleNodeStore.open(path);
+      expect(new MerkleTree(4, compacted).getRoot()).toEqual(tree.getRoot());
+    });
+  });
 });
@@ -7,10 +7,49 @@ import { Poseidon } from './hash.js';
 import { Bool, Field } from './core.js';
 
 // external API
-export { Witness, MerkleTree, MerkleWitness, BaseMerkleWitness };
+export {
+  Witness,
+  MerkleTree,
+  MerkleWitness,
+  BaseMerkleWitness,
+  MerkleNodeStore,
+  MemoryMerkleNodeStore,
+};
 
 type Witness = { isLeft: boolean; sibling: Field }[];
 
+/**
+ * A storage backend for the nodes of a {@link MerkleTree}.
+ *
+ * Only nodes that were explicitly set have to be stored. For all other nodes, `get()` returns `undefined`
+ * and the tree falls back to the hash of an empty subtree at that level.
+ */
+interface MerkleNodeStore {
+  /**
+   * Returns the node at the given level and index, or `undefined` if it was never set.
+   */
+  get(level: number, index: bigint): Field | undefined;
+  /**
+   * Stores the node at the given level and index.
+   */
+  set(level: number, index: bigint, value: Field): void;
+}
+
+/**
+ * The default {@link MerkleNodeStore}, which keeps all nodes in memory.
+ */
+class MemoryMerkleNodeStore implements MerkleNodeStore {
+  private nodes: Record<number, Record<string, Field>> = {};
+
+  get(level: number, index: bigint): Field | undefined {
+    return this.nodes[level]?.[index.toString()];
+  }
+
+  set(level: number, index: bigint, value: Field) {
+    (this.nodes[level] ??= {})[index.toString()] = value;
+  }
+}
+
 /**
  * A [Merkle Tree](https://en.wikipedia.org/wiki/Merkle_tree) is a binary tree in which every leaf is the cryptography hash of a piece of data,
  * and every node is the hash of the concatenation of its two child nodes.
@@ -22,21 +61,43 @@ type Witness = { isLeft: boolean; sibling: Field }[];
  * Levels are indexed from leaves (level 0) to root (level N - 1).
  */
 class MerkleTree {
-  private nodes: Record<number, Record<string, Field>> = {};
   private zeroes: Field[];
 
   /**
-   * Creates a new, empty [Merkle Tree](https://en.wikipedia.org/wiki/Merkle_tree).
+   * Creates a new [Merkle Tree](https://en.wikipedia.org/wiki/Merkle_tree).
+   *
+   * By default, the tree is empty and its nodes are kept in memory. If a {@link MerkleNodeStore} which already contains nodes
+   * is passed in, for example a reopened file-backed store, the tree starts out with these nodes.
+   * The store has to be used with the same height it was filled with.
    * @param height The height of Merkle Tree.
+   * @param store The storage backend for the nodes of the tree.
    * @returns A new MerkleTree
    */
-  constructor(public readonly height: number) {
+  constructor(
+    public readonly height: number,
+    public readonly store: MerkleNodeStore = new MemoryMerkleNodeStore()
+  ) {
     this.zeroes = [Field(0)];
     for (let i = 1; i < height; i++) {
       this.zeroes.push(Poseidon.hash([this.zeroes[i - 1], this.zeroes[i - 1]]));
     }
   }
 
+  /**
+   * Creates a new [Merkle Tree](https://en.wikipedia.org/wiki/Merkle_tree) whose first leaves are the given values.
+   *
+   * This is much faster than setting the leaves one by one, because every internal node is only computed once.
+   * @param height The height of Merkle Tree.
+   * @param leaves Values of the leaves, starting at index 0.
+   * @param store The storage backend for the nodes of the tree.
+   * @returns A new MerkleTree
+   */
+  static fromLeaves(height: number, leaves: Field[], store?: MerkleNodeStore) {
+    let tree = new MerkleTree(height, store);
+    tree.fill(leaves);
+    return tree;
+  }
+
   /**
    * Returns a node which lives at a given index and level.
    * @param level Level of the node.
@@ -44,7 +105,7 @@ class MerkleTree {
    * @returns The data of the node.
    */
   getNode(level: number, index: bigint): Field {
-    return this.nodes[level]?.[index.toString()] ?? this.zeroes[level];
+    return this.store.get(level, index) ?? this.zeroes[level];
   }
 
   /**
@@ -57,7 +118,7 @@ class MerkleTree {
 
   // TODO: this allows to set a node at an index larger than the size. OK?
   private setNode(level: number, index: bigint, value: Field) {
-    (this.nodes[level] ??= {})[index.toString()] = value;
+    this.store.set(level, index, value);
   }
 
   // TODO: if this is passed an index bigger than the max, it will set a couple of out-of-bounds nodes but not affect the real Merkle root. OK?
@@ -84,6 +145,40 @@ class MerkleTree {
     }
   }
 
+  /**
+   * Sets the values of several leaf nodes at once.
+   *
+   * In contrast to calling {@link MerkleTree.setLeaf} for every leaf, each internal node on the paths to the root
+   * is recomputed at most once, which makes this much faster for large batches.
+   * If an index occurs more than once, the last value is used.
+   * @param leaves Positions and new values of the leaf nodes.
+   */
+  setLeaves(leaves: { index: bigint; value: Field }[]) {
+    for (let { index } of leaves) {
+      if (index >= this.leafCount) {
+        throw new Error(
+          `index ${index} is out of range for ${this.leafCount} leaves.`
+        );
+      }
+    }
+    // indices of the nodes at the current level which need to be recomputed
+    let dirty = new Set<bigint>();
+    for (let { index, value } of leaves) {
+      this.setNode(0, index, value);
+      dirty.add(index);
+    }
+    for (let level = 1; level < this.height; level++) {
+      let parents = new Set<bigint>();
+      for (let index of dirty) parents.add(index / 2n);
+      for (let index of parents) {
+        const left = this.getNode(level - 1, index * 2n);
+        const right = this.getNode(level - 1, index * 2n + 1n);
+        this.setNode(level, index, Poseidon.hash([left, right]));
+      }
+      dirty = parents;
+    }
+  }
+
   /**
    * Returns the witness (also known as [Merkle Proof or Merkle Witness](https://computersciencewiki.org/index.php/Merkle_proof)) for the leaf at the given index.
    * @param index Position of the leaf node.
@@ -123,15 +218,17 @@ class MerkleTree {
     return hash.toString() === this.getRoot().toString();
   }
 
-  // TODO: should this take an optional offset? should it fail if the array is too long?
+  // TODO: should this take an optional offset?
   /**
-   * Fills all leaves of the tree.
+   * Fills all leaves of the tree, starting at index 0. Internal nodes are recomputed in a single batch, see {@link MerkleTree.setLeaves}.
+   *
+   * Throws if there are more values than leaves.
    * @param leaves Values to fill the leaves with.
    */
   fill(leaves: Field[]) {
-    leaves.forEach((value, index) => {
-      this.setLeaf(BigInt(index), value);
-    });
+    this.setLeaves(
+      leaves.map((value, index) => ({ index: BigInt(index), value }))
+    );
   }
 
   /**
@@ -0,0 +1,108 @@
+import {
+  appendFileSync,
+  existsSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { Field } from './core.js';
+import { MerkleNodeStore } from './merkle_tree.js';
+
+export { FileMerkleNodeStore };
+
+/**
+ * A {@link MerkleNodeStore} which persists the nodes of a {@link MerkleTree} to a file, so that a tree
+ * (and therefore its root and witnesses) can be recovered after a restart without recomputing any hashes.
+ *
+ * All nodes are also kept in memory. Changes are buffered and only written to disk when calling `flush()`.
+ * The file is an append-only log of node updates, which can be compacted with `snapshot()`.
+ *
+ * This store is only available in Node.js.
+ *
+ * ```ts
+ * let store = FileMerkleNodeStore.open('./registry.tree');
+ * let tree = new MerkleTree(32, store);
+ * tree.setLeaf(0n, Field(1));
+ * store.flush();
+ * ```
+ */
+class FileMerkleNodeStore implements MerkleNodeStore {
+  private nodes: Record<number, Record<string, Field>> = {};
+  private pending: string[] = [];
+
+  private constructor(public readonly path: string) {}
+
+  /**
+   * Opens the store at the given path. If the file exists, the nodes stored in it are loaded;
+   * otherwise, an empty store is created which will write to that path.
+   * @param path Path of the file in which nodes are stored.
+   * @returns A new FileMerkleNodeStore
+   */
+  static open(path: string) {
+    let store = new FileMerkleNodeStore(path);
+    if (existsSync(path)) {
+      let lines = readFileSync(path, 'utf8').split('\n');
+      lines.forEach((line, i) => {
+        if (line === '') return;
+        let [level, index, value] = line.split(' ');
+        if (value === undefined)
+          throw Error(
+            `FileMerkleNodeStore.open: Malformed entry in ${path}, line ${
+              i + 1
+            }: "${line}"`
+          );
+        store.setInMemory(Number(level), index, Field(value));
+      });
+    } else {
+      writeFileSync(path, '');
+    }
+    return store;
+  }
+
+  get(level: number, index: bigint): Field | undefined {
+    return this.nodes[level]?.[index.toString()];
+  }
+
+  set(level: number, index: bigint, value: Field) {
+    this.setInMemory(level, index.toString(), value);
+    this.pending.push(serializeNode(level, index.toString(), value));
+  }
+
+  /**
+   * Writes all changes since the last flush to disk.
+   */
+  flush() {
+    if (this.pending.length === 0) return;
+    appendFileSync(this.path, this.pending.join(''));
+    this.pending = [];
+  }
+
+  /**
+   * Writes all current nodes to a new file, which can be reopened with {@link FileMerkleNodeStore.open}.
+   *
+   * In contrast to the log written by `flush()`, the snapshot contains every node only once.
+   * If no path is given, the store's own file is replaced by the snapshot, i.e. it is compacted.
+   * The file is written to a temporary location first, so that a crash can't leave a partial snapshot behind.
+   * @param path Path of the snapshot file, defaults to the path of this store.
+   */
+  snapshot(path = this.path) {
+    let lines: string[] = [];
+    for (let [level, nodes] of Object.entries(this.nodes)) {
+      for (let [index, value] of Object.entries(nodes)) {
+        lines.push(serializeNode(Number(level), index, value));
+      }
+    }
+    let tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, lines.join(''));
+    renameSync(tmpPath, path);
+    if (path === this.path) this.pending = [];
+  }
+
+  private setInMemory(level: number, index: string, value: Field) {
+    (this.nodes[level] ??= {})[index] = value;
+  }
+}
+
+function serializeNode(level: number, index: string, value: Field) {
+  return `${level} ${index} ${value.toString()}\n`;
+}
@@ -0,0 +1,37 @@
+import { Field } from './core.js';
+import { MerkleNodeStore } from './merkle_tree.js';
+
+export { FileMerkleNodeStore };
+
+/**
+ * A {@link MerkleNodeStore} which persists the nodes of a {@link MerkleTree} to a file.
+ *
+ * This store is only available in Node.js; in the browser, all methods throw.
+ */
+class FileMerkleNodeStore implements MerkleNodeStore {
+  private constructor(public readonly path: string) {}
+
+  static open(path: string): FileMerkleNodeStore {
+    throw notSupported();
+  }
+
+  get(level: number, index: bigint): Field | undefined {
+    throw notSupported();
+  }
+
+  set(level: number, index: bigint, value: Field) {
+    throw notSupported();
+  }
+
+  flush() {
+    throw notSupported();
+  }
+
+  snapshot(path = this.path) {
+    throw notSupported();
+  }
+}
+
+function notSupported() {
+  return Error('FileMerkleNodeStore is not supported in the browser.');
+}
@@ -5,15 +5,18 @@ import { PrivateKey, PublicKey } from './signature.js';
 import {
   addMissingProofs,
   addMissingSignatures,
+  signFullCommitment,
   FeePayerUnsigned,
   ZkappCommand,
   AccountUpdate,
   ZkappPublicInput,
   TokenId,
+  Token,
   CallForest,
   Authorization,
   SequenceEvents,
   Events,
+  Permissions,
 } from './account_update.js';
 
 import * as Fetch from './fetch.js';
@@ -25,6 +28,31 @@ import { SmartContract } from './zkapp.js';
 import { invalidTransactionError } from './errors.js';
 import { Types } from '../provable/types.js';
 import { Account } from './mina/account.js';
+import { Poseidon } from './hash.js';
+import * as Encoding from './encoding.js';
+import {
+  TransactionReceipt,
+  AccountUpdateReceipt,
+  TransactionFailure,
+  appliedTransactionReceipt,
+  failedTransactionReceipt,
+} from './mina/receipt.js';
+import {
+  simulateOnLedger,
+  replicateAccounts,
+  touchedAccounts,
+  dummySignedUpdate,
+  setupFeePayer,
+} from './mina/simulation.js';
+import {
+  feeEstimate,
+  feeSample,
+  authorizationKinds,
+  transactionCost,
+  costLimit,
+  filterGroups,
+  minimumFee,
+} from './mina/fee.js';
 
 export {
   createTransaction,
@@ -46,19 +74,91 @@ export {
   getNetworkState,
   accountCreationFee,
   sendTransaction,
+  estimateFee,
   fetchEvents,
+  fetchActions,
   getActions,
+  ActionStates,
   FeePayerSpec,
+  GenesisConfig,
+  GenesisAccount,
+  TransactionReceipt,
+  AccountUpdateReceipt,
+  TransactionFailure,
   faucet,
   waitForFunding,
   getProofsEnabled,
+  // for internal use only
+  newTransaction,
+  ReplicatedState,
   // for internal testing only
   filterGroups,
 };
 interface TransactionId {
   isSuccess: boolean;
-  wait(options?: { maxAttempts?: number; interval?: number }): Promise<void>;
+  /**
+   * Waits until the transaction is included in a block, and optionally until more blocks were added on top of it.
+   *
+   * Rejects with the reason if the transaction fails, is dropped or replaced,
+   * or if it isn't included after the maximum number of attempts.
+   *
+   * @param options.maxAttempts How often the status of the transaction is fetched, by default 45 times.
+   * @param options.interval Milliseconds between two attempts, by default 20 seconds.
+   * @param options.confirmations How many blocks have to be added on top of the block which includes the transaction, by default 0.
+   * Only supported by `Mina.Network` with an archive endpoint.
+   */
+  wait(options?: {
+    maxAttempts?: number;
+    interval?: number;
+    confirmations?: number;
+  }): Promise<void>;
   hash(): string | undefined;
+  /**
+   * Fetches the status of the transaction: whether it is pending, was included or failed in a block, or was dropped.
+   *
+   * Only supported by `Mina.Network` with an archive endpoint, see {@link Fetch.fetchTransactionInfo}.
+   */
+  status(): Promise<Fetch.TransactionInfo>;
+  /**
+   * Resolves with the {@link TransactionReceipt} once the transaction was applied, or failed while being included in a block.
+   *
+   * Only supported by `LocalBlockchain`. If a transaction fails when it is sent, the thrown error has the receipt as `error.receipt`.
+   */
+  receipt(): Promise<TransactionReceipt>;
+  /**
+   * Replaces the pending transaction by the same transaction with a higher fee, e.g. to speed up its inclusion.
+   *
+   * The replacement has the same fee payer and nonce. The fee payer is signed again, together with all account updates
+   * which are signed with the full commitment. The private keys which were used to sign the original transaction are reused,
+   * including the key of the fee payer passed to `Mina.transaction()`; other keys can be passed in.
+   *
+   * Only supported by `Mina.Network`. The `wait()` of the original transaction rejects once it is replaced.
+   *
+   * @param options.fee The new fee in nanomina, which has to be higher than the current fee.
+   * @param options.keys Additional private keys to sign the replacement with.
+   * @returns The id of the replacement transaction.
+   */
+  replace(options: {
+    fee: number | string | UInt64;
+    keys?: PrivateKey[];
+  }): Promise<TransactionId>;
+  /**
+   * Cancels the pending transaction, by replacing it with a transaction that has the same fee payer and nonce,
+   * a higher fee and no account updates.
+   *
+   * The cancelling transaction is signed with the key of the fee payer which was used to sign the original transaction,
+   * unless another key is passed in.
+   *
+   * Only supported by `Mina.Network`. The `wait()` of the original transaction rejects once it is cancelled.
+   *
+   * @param options.fee The fee of the cancelling transaction in nanomina, by default 10% more than the current fee.
+   * @param options.keys Additional private keys to sign the cancelling transaction with.
+   * @returns The id of the cancelling transaction.
+   */
+  cancel(options?: {
+    fee?: number | string | UInt64;
+    keys?: PrivateKey[];
+  }): Promise<TransactionId>;
 }
 
 type Transaction = {
@@ -92,6 +192,16 @@ type Transaction = {
    * This can take some time.
    */
   prove(): Promise<(Proof<ZkappPublicInput> | undefined)[]>;
+  /**
+   * Simulates applying the {@link Transaction} to the current state of the network, without sending it.
+   *
+   * The returned {@link TransactionReceipt} has the status `'failed'` and lists the errors if the transaction would fail,
+   * for example because of unsatisfied preconditions, missing permissions or a wrong fee excess.
+   * Signatures and proofs are not checked, so this can be called before signing and proving.
+   *
+   * On `Mina.Network`, all accounts touched by the transaction are fetched and copied to a local ledger first.
+   */
+  simulate(): Promise<TransactionReceipt>;
   /**
    * Sends the {@link Transaction} to the network.
    */
@@ -123,7 +233,14 @@ type FeePayerSpec =
   | PublicKey
   | {
       sender: PublicKey;
-      fee?: number | string | UInt64;
+      /**
+       * The fee in nanomina, or `'auto'` to use the estimate returned by {@link estimateFee}.
+       */
+      fee?: number | string | UInt64 | 'auto';
+      /**
+       * The highest fee in nanomina that `fee: 'auto'` may choose.
+       */
+      maxFee?: number | string | UInt64;
       memo?: string;
       nonce?: number;
     }
@@ -142,7 +259,8 @@ type DeprecatedFeePayerSpec =
           sender: PublicKey;
         }
     ) & {
-      fee?: number | string | UInt64;
+      fee?: number | string | UInt64 | 'auto';
+      maxFee?: number | string | UInt64;
       memo?: string;
       nonce?: number;
     })
@@ -156,23 +274,12 @@ function reportGetAccountError(publicKey: string, tokenId: string) {
   }
 }
 
-function createTransaction(
-  feePayer: DeprecatedFeePayerSpec,
-  f: () => unknown,
-  numberOfRuns: 0 | 1 | undefined,
-  {
-    fetchMode = 'cached' as FetchMode,
-    isFinalRunOutsideCircuit = true,
-    proofsEnabled = true,
-  } = {}
-): Transaction {
-  if (currentTransaction.has()) {
-    throw new Error('Cannot start new transaction within another transaction');
-  }
+function normalizeFeePayerSpec(feePayer: DeprecatedFeePayerSpec) {
   let feePayerSpec: {
     sender?: PublicKey;
     feePayerKey?: PrivateKey;
-    fee?: number | string | UInt64;
+    fee?: number | string | UInt64 | 'auto';
+    maxFee?: number | string | UInt64;
     memo?: string;
     nonce?: number;
   };
@@ -187,7 +294,29 @@ function createTransaction(
     if (feePayerSpec.sender === undefined)
       feePayerSpec.sender = feePayerSpec.feePayerKey?.toPublicKey();
   }
-  let { feePayerKey, sender, fee, memo = '', nonce } = feePayerSpec;
+  return feePayerSpec;
+}
+
+function createTransaction(
+  feePayer: DeprecatedFeePayerSpec,
+  f: () => unknown,
+  numberOfRuns: 0 | 1 | undefined,
+  {
+    fetchMode = 'cached' as FetchMode,
+    isFinalRunOutsideCircuit = true,
+    proofsEnabled = true,
+  } = {}
+): Transaction {
+  if (currentTransaction.has()) {
+    throw new Error('Cannot start new transaction within another transaction');
+  }
+  let {
+    feePayerKey,
+    sender,
+    fee,
+    memo = '',
+    nonce,
+  } = normalizeFeePayerSpec(feePayer);
 
   let transactionId = currentTransaction.enter({
     sender,
@@ -252,7 +381,8 @@ function createTransaction(
     feePayerAccountUpdate = AccountUpdate.defaultFeePayer(sender, nonce_);
     if (feePayerKey !== undefined)
       feePayerAccountUpdate.lazyAuthorization!.privateKey = feePayerKey;
-    if (fee !== undefined) {
+    // an automatic fee is filled in later, by `setAutoFee()`
+    if (fee !== undefined && fee !== 'auto') {
       feePayerAccountUpdate.body.fee =
         fee instanceof UInt64 ? fee : UInt64.from(String(fee));
     }
@@ -271,11 +401,90 @@ function createTransaction(
   return newTransaction(transaction, proofsEnabled);
 }
 
+async function replaceNotSupported(): Promise<TransactionId> {
+  throw Error(
+    'Replacing and cancelling transactions is only supported by Mina.Network.'
+  );
+}
+
+async function statusNotSupported(): Promise<Fetch.TransactionInfo> {
+  throw Error(
+    'Fetching the transaction status is only supported by Mina.Network.'
+  );
+}
+
+// explains why a transaction failed in a block, from the failure reasons reported by the Mina node
+function failedTransactionError(
+  transaction: ZkappCommand,
+  {
+    blockHeight,
+    failureReasons,
+  }: Extract<Fetch.TransactionInfo, { status: 'failed' }>,
+  accountCreationFee: UInt64
+) {
+  // like in the ledger, errors are listed for the fee payer first, and then for every account update
+  let errors: string[][][] = [
+    transaction.feePayer,
+    ...transaction.accountUpdates,
+  ].map(() => []);
+  failureReasons.forEach(({ index, failures }) => {
+    errors[index]?.push(...failures.map((failure) => [failure]));
+  });
+  let message = invalidTransactionError(transaction, errors, {
+    accountCreationFee: accountCreationFee.toString(),
+  });
+  return Error(
+    `The transaction failed in the block at height ${blockHeight}.\n${message}`
+  );
+}
+
+/**
+ * Replaces the fee of a transaction created with `fee: 'auto'` by the estimate of the Mina instance, capped at `maxFee`.
+ */
+async function setAutoFee(
+  tx: Transaction,
+  feePayer: DeprecatedFeePayerSpec,
+  estimateFee: (transaction: Transaction) => Promise<UInt64>
+) {
+  let feePayerSpec = normalizeFeePayerSpec(feePayer);
+  if (feePayerSpec.fee !== 'auto') return tx;
+  let fee = await estimateFee(tx);
+  if (feePayerSpec.maxFee !== undefined) {
+    let maxFee =
+      feePayerSpec.maxFee instanceof UInt64
+        ? feePayerSpec.maxFee
+        : UInt64.from(String(feePayerSpec.maxFee));
+    let minFee = minimumFee(authorizationKinds(tx.transaction.accountUpdates));
+    if (maxFee.lessThan(UInt64.from(minFee)).toBoolean()) {
+      throw Error(
+        `The maximum fee of ${maxFee} nanomina is lower than the minimum fee of ${minFee} nanomina for this transaction.`
+      );
+    }
+    if (fee.greaterThan(maxFee).toBoolean()) fee = maxFee;
+  }
+  tx.transaction.feePayer.body.fee = fee;
+  return tx;
+}
+
+// the private keys which signed a transaction, so that it can be signed again when it is replaced
+let signingKeys = new WeakMap<Transaction, PrivateKey[]>();
+
 function newTransaction(transaction: ZkappCommand, proofsEnabled?: boolean) {
   let self: Transaction = {
     transaction,
-    sign(additionalKeys?: PrivateKey[]) {
+    sign(additionalKeys = [] as PrivateKey[]) {
+      let { feePayer, accountUpdates } = self.transaction;
+      let keys = [
+        feePayer.lazyAuthorization?.privateKey,
+        ...accountUpdates.map(({ lazyAuthorization }) =>
+          lazyAuthorization?.kind === 'lazy-signature'
+            ? lazyAuthorization.privateKey
+            : undefined
+        ),
+        ...additionalKeys,
+      ].filter((key): key is PrivateKey => key !== undefined);
       self.transaction = addMissingSignatures(self.transaction, additionalKeys);
+      signingKeys.set(self, [...(signingKeys.get(self) ?? []), ...keys]);
       return self;
     },
     async prove() {
@@ -295,6 +504,9 @@ function newTransaction(transaction: ZkappCommand, proofsEnabled?: boolean) {
     toGraphqlQuery() {
       return Fetch.sendZkappQuery(self.toJSON());
     },
+    async simulate() {
+      return await activeInstance.simulateTransaction(self);
+    },
     async send() {
       return await sendTransaction(self);
     },
@@ -321,38 +533,93 @@ interface Mina {
   };
   accountCreationFee(): UInt64;
   sendTransaction(transaction: Transaction): Promise<TransactionId>;
+  simulateTransaction(transaction: Transaction): Promise<TransactionReceipt>;
+  estimateFee(transaction: Transaction): Promise<UInt64>;
   fetchEvents: (
     publicKey: PublicKey,
     tokenId?: Field,
     filterOptions?: Fetch.EventActionFilterOptions
   ) => ReturnType<typeof Fetch.fetchEvents>;
+  fetchActions: (
+    publicKey: PublicKey,
+    tokenId?: Field,
+    actionStates?: ActionStates
+  ) => Promise<{ hash: string; actions: string[][] }[]>;
   getActions: (
     publicKey: PublicKey,
-    tokenId?: Field
+    tokenId?: Field,
+    actionStates?: ActionStates
   ) => { hash: string; actions: string[][] }[];
   proofsEnabled: boolean;
 }
 
+/**
+ * A range of actions, given by the action hash before the first action (`fromActionHash`)
+ * and the action hash after the last action (`endActionHash`).
+ */
+type ActionStates = {
+  fromActionHash?: Field;
+  endActionHash?: Field;
+};
+
 const defaultAccountCreationFee = 1_000_000_000;
 
 /**
  * A mock Mina blockchain running locally and useful for testing.
+ *
+ * By default, transactions are applied immediately when they are sent. With the `blockProduction` option,
+ * sent transactions go into a mempool instead, and are included in blocks:
+ * - `'manual'`: a block is produced when calling `produceBlock()`
+ * - `{ transactionsPerBlock: n }`: a block is produced as soon as there are `n` pending transactions, or when calling `produceBlock()`
+ *
+ * Every block advances `blockchainLength` and `globalSlotSinceGenesis` by one, and its transactions are applied in the order
+ * they were sent, with the network state of the new block. `wait()` resolves when a transaction is included, and rejects if it failed.
+ *
+ * With the `genesis` option, the genesis ledger and time can be fixed, so that test runs and the transactions they create are the
+ * same every time:
+ *
+ * ```ts
+ * let Local = Mina.LocalBlockchain({
+ *   genesis: {
+ *     seed: 1,
+ *     timestamp: Date.UTC(2023, 0, 1),
+ *     accounts: [{ balance: 10e9 }, { balance: 10e9, appState: [Field(1)] }],
+ *   },
+ * });
+ * ```
+ * See {@link GenesisConfig} and {@link GenesisAccount}.
  */
 function LocalBlockchain({
   accountCreationFee = defaultAccountCreationFee as string | number,
   proofsEnabled = true,
   enforceTransactionLimits = true,
+  blockProduction = 'instant' as
+    | 'instant'
+    | 'manual'
+    | { transactionsPerBlock: number },
+  genesis = {} as GenesisConfig,
 } = {}) {
   const slotTime = 3 * 60 * 1000;
-  const startTime = Date.now();
+  const hasFixedGenesisTime = genesis.timestamp !== undefined;
+  const startTime = hasFixedGenesisTime
+    ? Number(UInt64.from(genesis.timestamp!).toBigInt())
+    : Date.now();
   const genesisTimestamp = UInt64.from(startTime);
 
-  const ledger = Ledger.create([]);
+  let ledger = Ledger.create([]);
+  // all changes applied to the ledger, so that it can be rebuilt when reverting to a snapshot.
+  // the ledger can't be copied, so this is the only way to restore an earlier state; it is cut back to the snapshot on every revert
+  let ledgerHistory: ((ledger: Ledger) => void)[] = [];
+
+  function applyToLedger(change: (ledger: Ledger) => void) {
+    change(ledger);
+    ledgerHistory.push(change);
+  }
 
   let networkState = defaultNetworkState();
 
   function addAccount(pk: PublicKey, balance: string) {
-    ledger.addAccount(pk, balance);
+    applyToLedger((ledger) => ledger.addAccount(pk, balance));
   }
 
   let testAccounts: {
@@ -360,17 +627,243 @@ function LocalBlockchain({
     privateKey: PrivateKey;
   }[] = [];
 
-  for (let i = 0; i < 10; ++i) {
-    let MINA = 10n ** 9n;
-    const largeValue = 1000n * MINA;
-    const k = PrivateKey.random();
-    const pk = k.toPublicKey();
-    addAccount(pk, largeValue.toString());
-    testAccounts.push({ privateKey: k, publicKey: pk });
+  let genesisAccounts: GenesisAccount[] =
+    genesis.accounts ?? Array.from({ length: 10 }, () => ({}));
+  let accountsToSetUp: (GenesisAccount & { publicKey: PublicKey })[] = [];
+
+  genesisAccounts.forEach((account, i) => {
+    let privateKey =
+      account.privateKey ??
+      (account.publicKey === undefined
+        ? genesis.seed === undefined
+          ? PrivateKey.random()
+          : deriveTestAccountKey(genesis.seed, i)
+        : undefined);
+    let publicKey = account.publicKey ?? privateKey!.toPublicKey();
+    if (account.tokenOwner === undefined) {
+      let MINA = 10n ** 9n;
+      const largeValue = 1000n * MINA;
+      addAccount(
+        publicKey,
+        UInt64.from(account.balance ?? largeValue).toString()
+      );
+      if (privateKey !== undefined)
+        testAccounts.push({ privateKey, publicKey });
+    }
+    if (
+      account.tokenOwner !== undefined ||
+      account.permissions !== undefined ||
+      account.appState !== undefined ||
+      account.verificationKey !== undefined
+    ) {
+      accountsToSetUp.push({ ...account, publicKey });
+    }
+  });
+
+  // settings which can't be passed to `Ledger.addAccount()` are applied with a transaction, which is paid for by an extra account
+  if (accountsToSetUp.length > 0) {
+    let feePayer = setupFeePayer();
+    let tokenAccountCount = accountsToSetUp.filter(
+      ({ tokenOwner }) => tokenOwner !== undefined
+    ).length;
+    addAccount(
+      feePayer,
+      UInt64.from(accountCreationFee).mul(tokenAccountCount).toString()
+    );
+    let transaction = genesisTransaction(
+      accountsToSetUp,
+      feePayer,
+      UInt64.from(accountCreationFee)
+    );
+    let json = JSON.stringify(ZkappCommand.toJSON(transaction));
+    let networkStateJson = JSON.stringify(networkState);
+    try {
+      applyToLedger((ledger) =>
+        ledger.applyJsonTransaction(
+          json,
+          String(accountCreationFee),
+          networkStateJson
+        )
+      );
+    } catch (err: any) {
+      throw Error(
+        `LocalBlockchain: Failed to set up the genesis accounts: ${err.message}`
+      );
+    }
   }
 
-  const events: Record<string, any> = {};
-  const actions: Record<string, any> = {};
+  let events: Record<string, any> = {};
+  let actions: Record<string, any> = {};
+
+  let snapshots: LocalBlockchainSnapshot[] = [];
+
+  // transactions which are waiting to be included in a block, if blocks are produced
+  let mempool: PendingTransaction[] = [];
+  let lastBlockHash = Field(0);
+
+  // applies a transaction to the ledger, records its events and actions, and returns its receipt
+  function applyTransaction(
+    transaction: ZkappCommand,
+    blockInfo: {
+      blockHash: string;
+      parentBlockHash: string;
+      transactionHash: string;
+    }
+  ): TransactionReceipt {
+    let zkappCommandJson = ZkappCommand.toJSON(transaction);
+    let json = JSON.stringify(zkappCommandJson);
+    let hash = Ledger.fieldToBase58(
+      Ledger.transactionCommitments(json).fullCommitment
+    );
+    let getAccount = (publicKey: PublicKey, tokenId: Field) => {
+      let accountJson = ledger.getAccount(publicKey, tokenId);
+      return accountJson && Account.fromJSON(accountJson);
+    };
+    let receipt = appliedTransactionReceipt(
+      transaction,
+      hash,
+      getAccount,
+      UInt64.from(accountCreationFee)
+    );
+    try {
+      let networkStateJson = JSON.stringify(networkState);
+      applyToLedger((ledger) =>
+        ledger.applyJsonTransaction(
+          json,
+          String(accountCreationFee),
+          networkStateJson
+        )
+      );
+    } catch (err: any) {
+      try {
+        // reverse errors so they match order of account updates
+        let errors = JSON.parse(err.message);
+        err.message = invalidTransactionError(transaction, errors, {
+          accountCreationFee,
+          getAccount,
+        });
+        err.receipt = failedTransactionReceipt(transaction, hash, errors);
+      } finally {
+        throw err;
+      }
+    }
+
+    // fetches all events from the transaction and stores them
+    // events are identified and associated with a publicKey and tokenId
+    zkappCommandJson.accountUpdates.forEach((p) => {
+      let addr = p.body.publicKey;
+      let tokenId = p.body.tokenId;
+      if (events[addr] === undefined) {
+        events[addr] = {};
+      }
+      if (p.body.events.length > 0) {
+        if (events[addr][tokenId] === undefined) {
+          events[addr][tokenId] = [];
+        }
+        events[addr][tokenId].push({
+          events: p.body.events,
+          blockHeight: networkState.blockchainLength,
+          globalSlot: networkState.globalSlotSinceGenesis,
+          // The following fields are fetched from the Mina network. Without block production, we mock these values out.
+          ...blockInfo,
+          chainStatus: blockInfo.blockHash === '' ? '' : 'canonical',
+          transactionStatus: blockInfo.blockHash === '' ? '' : 'applied',
+          transactionMemo: '',
+        });
+      }
+
+      // actions/sequencing events
+
+      // gets the index of the most up to date sequence state from our sequence list
+      let n = actions[addr]?.[tokenId]?.length ?? 1;
+
+      // most recent sequence state
+      let sequenceState = actions?.[addr]?.[tokenId]?.[n - 1]?.hash;
+
+      // if there exists no hash, this means we initialize our latest hash with the empty state
+      let latestActionsHash =
+        sequenceState === undefined
+          ? SequenceEvents.emptySequenceState()
+          : Ledger.fieldOfBase58(sequenceState);
+
+      let actionList = p.body.actions;
+      let eventsHash = SequenceEvents.hash(
+        actionList.map((e) => e.map((f) => Field(f)))
+      );
+
+      if (actions[addr] === undefined) {
+        actions[addr] = {};
+      }
+      if (p.body.actions.length > 0) {
+        latestActionsHash = SequenceEvents.updateSequenceState(
+          latestActionsHash,
+          eventsHash
+        );
+        if (actions[addr][tokenId] === undefined) {
+          actions[addr][tokenId] = [];
+        }
+        actions[addr][tokenId].push({
+          actions: actionList,
+          hash: Ledger.fieldToBase58(latestActionsHash),
+        });
+      }
+    });
+    return receipt;
+  }
+
+  // the fees of the transactions in the mempool are used as recent fees
+  async function estimateFee({ transaction }: Transaction) {
+    return feeEstimate(
+      authorizationKinds(transaction.accountUpdates),
+      mempool.map(({ transaction }) => feeSample(transaction))
+    );
+  }
+
+  /**
+   * Includes all pending transactions in a new block, see {@link LocalBlockchain}.
+   */
+  function produceBlock() {
+    networkState.blockchainLength = networkState.blockchainLength.add(1);
+    networkState.globalSlotSinceGenesis =
+      networkState.globalSlotSinceGenesis.add(1);
+    let transactions = mempool;
+    mempool = [];
+
+    let blockHashField = Poseidon.hash([
+      lastBlockHash,
+      networkState.blockchainLength.value,
+      ...transactions.map(({ commitment }) => commitment),
+    ]);
+    let blockHash = Encoding.StateHash.toBase58(blockHashField);
+    let parentBlockHash = Encoding.StateHash.toBase58(lastBlockHash);
+    lastBlockHash = blockHashField;
+
+    let results = transactions.map(({ transaction, hash, resolve, reject }) => {
+      try {
+        let receipt = applyTransaction(transaction, {
+          blockHash,
+          parentBlockHash,
+          transactionHash: hash,
+        });
+        resolve(receipt);
+        return { hash, status: 'applied' as const, receipt };
+      } catch (err: any) {
+        reject(err);
+        return {
+          hash,
+          status: 'failed' as const,
+          error: err.message as string,
+          receipt: err.receipt as TransactionReceipt | undefined,
+        };
+      }
+    });
+    return {
+      height: networkState.blockchainLength,
+      blockHash,
+      parentBlockHash,
+      transactions: results,
+    };
+  }
 
   return {
     proofsEnabled,
@@ -383,6 +876,8 @@ function LocalBlockchain({
       };
     },
     currentSlot() {
+      // with a fixed genesis time, the current slot is only advanced by blocks and `setGlobalSlot()`
+      if (hasFixedGenesisTime) return networkState.globalSlotSinceGenesis;
       return UInt32.from(
         Math.ceil((new Date().valueOf() - startTime) / slotTime)
       );
@@ -431,94 +926,72 @@ function LocalBlockchain({
         }
       }
 
-      let zkappCommandJson = ZkappCommand.toJSON(txn.transaction);
-      try {
-        ledger.applyJsonTransaction(
-          JSON.stringify(zkappCommandJson),
-          String(accountCreationFee),
-          JSON.stringify(networkState)
-        );
-      } catch (err: any) {
-        try {
-          // reverse errors so they match order of account updates
-          // TODO: label updates, and try to give precise explanations about what went wrong
-          let errors = JSON.parse(err.message);
-          err.message = invalidTransactionError(txn.transaction, errors, {
-            accountCreationFee,
-          });
-        } finally {
-          throw err;
-        }
-      }
-
-      // fetches all events from the transaction and stores them
-      // events are identified and associated with a publicKey and tokenId
-      zkappCommandJson.accountUpdates.forEach((p) => {
-        let addr = p.body.publicKey;
-        let tokenId = p.body.tokenId;
-        if (events[addr] === undefined) {
-          events[addr] = {};
-        }
-        if (p.body.events.length > 0) {
-          if (events[addr][tokenId] === undefined) {
-            events[addr][tokenId] = [];
-          }
-          events[addr][tokenId].push({
-            events: p.body.events,
-            blockHeight: networkState.blockchainLength,
-            globalSlot: networkState.globalSlotSinceGenesis,
-            // The following fields are fetched from the Mina network. For now, we mock these values out
-            // since networkState does not contain these fields.
-            blockHash: '',
-            parentBlockHash: '',
-            chainStatus: '',
-            transactionHash: '',
-            transactionStatus: '',
-            transactionMemo: '',
-          });
-        }
-
-        // actions/sequencing events
-
-        // gets the index of the most up to date sequence state from our sequence list
-        let n = actions[addr]?.[tokenId]?.length ?? 1;
-
-        // most recent sequence state
-        let sequenceState = actions?.[addr]?.[tokenId]?.[n - 1]?.hash;
-
-        // if there exists no hash, this means we initialize our latest hash with the empty state
-        let latestActionsHash =
-          sequenceState === undefined
-            ? SequenceEvents.emptySequenceState()
-            : Ledger.fieldOfBase58(sequenceState);
-
-        let actionList = p.body.actions;
-        let eventsHash = SequenceEvents.hash(
-          actionList.map((e) => e.map((f) => Field(f)))
+      if (blockProduction !== 'instant') {
+        let transactionHash = Ledger.fieldToBase58(commitments.fullCommitment);
+        let resolve!: (receipt: TransactionReceipt) => void;
+        let reject!: (err: Error) => void;
+        let included = new Promise<TransactionReceipt>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        // don't report failed transactions as unhandled if nobody waits for them
+        included.catch(() => {});
+        // like on a Mina node, a transaction with a higher fee replaces a pending transaction with the same fee payer and nonce
+        let { publicKey, nonce, fee } = txn.transaction.feePayer.body;
+        let replacedIndex = mempool.findIndex(({ transaction: { feePayer } }) =>
+          feePayer.body.publicKey
+            .equals(publicKey)
+            .and(feePayer.body.nonce.equals(nonce))
+            .and(feePayer.body.fee.lessThan(fee))
+            .toBoolean()
         );
-
-        if (actions[addr] === undefined) {
-          actions[addr] = {};
-        }
-        if (p.body.actions.length > 0) {
-          latestActionsHash = SequenceEvents.updateSequenceState(
-            latestActionsHash,
-            eventsHash
+        if (replacedIndex !== -1) {
+          let [replaced] = mempool.splice(replacedIndex, 1);
+          replaced.reject(
+            Error(
+              'The transaction was replaced by a transaction with the same fee payer and nonce, and a higher fee.'
+            )
           );
-          if (actions[addr][tokenId] === undefined) {
-            actions[addr][tokenId] = [];
-          }
-          actions[addr][tokenId].push({
-            actions: actionList,
-            hash: Ledger.fieldToBase58(latestActionsHash),
-          });
         }
+        mempool.push({
+          transaction: txn.transaction,
+          commitment: commitments.fullCommitment,
+          hash: transactionHash,
+          resolve,
+          reject,
+        });
+        if (
+          typeof blockProduction === 'object' &&
+          mempool.length >= blockProduction.transactionsPerBlock
+        )
+          produceBlock();
+        return {
+          isSuccess: true,
+          wait: async () => {
+            await included;
+          },
+          hash: () => transactionHash,
+          receipt: () =>
+            included.catch((err) => {
+              if (err.receipt === undefined) throw err;
+              return err.receipt as TransactionReceipt;
+            }),
+          status: statusNotSupported,
+          replace: replaceNotSupported,
+          cancel: replaceNotSupported,
+        };
+      }
+      let receipt = applyTransaction(txn.transaction, {
+        blockHash: '',
+        parentBlockHash: '',
+        transactionHash: '',
       });
       return {
         isSuccess: true,
         wait: async (_options?: {
           maxAttempts?: number;
           interval?: number;
+          confirmations?: number;
         }) => {
           console.log(
             'Info: Waiting for inclusion in a block is not supported for LocalBlockchain.'
@@ -530,8 +1003,34 @@ function LocalBlockchain({
           console.log(message);
           return message;
         },
+        receipt: async () => receipt,
+        status: statusNotSupported,
+        replace: replaceNotSupported,
+        cancel: replaceNotSupported,
       };
     },
+    estimateFee,
+    async simulateTransaction({ transaction }: Transaction) {
+      // the simulation runs on a ledger with copies of the touched accounts, so that the ledger itself is not changed
+      let touched = touchedAccounts(transaction);
+      let accounts = touched.flatMap(({ publicKey, tokenId }) => {
+        let accountJson = ledger.getAccount(publicKey, tokenId);
+        return accountJson === undefined ? [] : [Account.fromJSON(accountJson)];
+      });
+      let context = {
+        networkState,
+        accountCreationFee: UInt64.from(accountCreationFee),
+      };
+      let ledgerCopy = replicateAccounts(
+        accounts,
+        touched.map(({ publicKey }) => publicKey),
+        context
+      );
+      return simulateOnLedger(ledgerCopy, transaction, {
+        ...context,
+        replicatedAccounts: accounts,
+      });
+    },
     async transaction(sender: DeprecatedFeePayerSpec, f: () => void) {
       // bad hack: run transaction just to see whether it creates proofs
       // if it doesn't, this is the last chance to run SmartContract.runOutsideCircuit, which is supposed to run only once
@@ -544,33 +1043,60 @@ function LocalBlockchain({
       let hasProofs = tx.transaction.accountUpdates.some(
         Authorization.hasLazyProof
       );
-      return createTransaction(sender, f, 1, {
+      tx = createTransaction(sender, f, 1, {
         isFinalRunOutsideCircuit: !hasProofs,
         proofsEnabled,
       });
+      return setAutoFee(tx, sender, estimateFee);
     },
     applyJsonTransaction(json: string) {
-      return ledger.applyJsonTransaction(
-        json,
-        String(accountCreationFee),
-        JSON.stringify(networkState)
+      let networkStateJson = JSON.stringify(networkState);
+      return applyToLedger((ledger) =>
+        ledger.applyJsonTransaction(
+          json,
+          String(accountCreationFee),
+          networkStateJson
+        )
       );
     },
-    async fetchEvents(publicKey: PublicKey, tokenId: Field = TokenId.default) {
-      return events?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ?? [];
+    async fetchEvents(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default,
+      filterOptions: Fetch.EventActionFilterOptions = {}
+    ) {
+      let { from, to } = filterOptions;
+      let currentEvents: any[] =
+        events?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ?? [];
+      // same as the archive node, only return events within the given range of block heights
+      return currentEvents.filter(
+        ({ blockHeight }: { blockHeight: UInt32 }) =>
+          (from === undefined ||
+            from.lessThanOrEqual(blockHeight).toBoolean()) &&
+          (to === undefined || blockHeight.lessThanOrEqual(to).toBoolean())
+      );
+    },
+    async fetchActions(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default,
+      actionStates?: ActionStates
+    ) {
+      let currentActions: { hash: string; actions: string[][] }[] =
+        actions?.[publicKey.toBase58()]?.[Ledger.fieldToBase58(tokenId)] ?? [];
+      return sliceActions(currentActions, actionStates);
     },
     getActions(
       publicKey: PublicKey,
-      tokenId: Field = TokenId.default
+      tokenId: Field = TokenId.default,
+      actionStates?: ActionStates
     ): { hash: string; actions: string[][] }[] {
-      return (
-        actions?.[publicKey.toBase58()]?.[Ledger.fieldToBase58(tokenId)] ?? []
-      );
+      let currentActions: { hash: string; actions: string[][] }[] =
+        actions?.[publicKey.toBase58()]?.[Ledger.fieldToBase58(tokenId)] ?? [];
+      return sliceActions(currentActions, actionStates);
     },
     addAccount,
     /**
      * An array of 10 test accounts that have been pre-filled with
-     * 30000000000 units of currency.
+     * 1000 MINA, or the genesis accounts with a private key, if `genesis.accounts` is given.
      */
     testAccounts,
     setGlobalSlot(slot: UInt32 | number) {
@@ -590,29 +1116,175 @@ function LocalBlockchain({
     setProofsEnabled(newProofsEnabled: boolean) {
       proofsEnabled = newProofsEnabled;
     },
+    /**
+     * Takes a snapshot of the ledger, the network state, and all events and actions.
+     *
+     * ```ts
+     * let snapshot = Local.snapshot(); // e.g. after deploying contracts, in `beforeAll()`
+     * // ...
+     * Local.revert(snapshot); // e.g. in `beforeEach()`
+     * ```
+     * @returns The id of the snapshot, which can be passed to {@link revert}.
+     */
+    snapshot() {
+      snapshots.push({
+        ledgerHistoryLength: ledgerHistory.length,
+        mempool: [...mempool],
+        lastBlockHash,
+        networkState: cloneCircuitValue(networkState),
+        events: cloneNestedLists(events),
+        actions: cloneNestedLists(actions),
+      });
+      return snapshots.length - 1;
+    },
+    /**
+     * Reverts the blockchain to the state it had when the snapshot was taken.
+     *
+     * The snapshot can be reverted to again later; snapshots which were taken after it are discarded.
+     *
+     * If transactions were applied since the snapshot was taken, the ledger is rebuilt by applying all transactions up to the snapshot
+     * to an empty ledger, so reverting takes as long as applying those transactions again. Otherwise, the ledger is kept as it is.
+     * @param id The id of the snapshot, as returned by {@link snapshot}.
+     */
+    revert(id: number) {
+      let snapshot = snapshots[id];
+      if (snapshot === undefined)
+        throw Error(`revert: Snapshot ${id} doesn't exist.`);
+      snapshots = snapshots.slice(0, id + 1);
+
+      // the ledger can't be copied, so it is rebuilt by applying the same changes to a fresh ledger
+      if (ledgerHistory.length > snapshot.ledgerHistoryLength) {
+        ledgerHistory = ledgerHistory.slice(0, snapshot.ledgerHistoryLength);
+        ledger = Ledger.create([]);
+        ledgerHistory.forEach((change) => change(ledger));
+      }
+
+      networkState = cloneCircuitValue(snapshot.networkState);
+      events = cloneNestedLists(snapshot.events);
+      actions = cloneNestedLists(snapshot.actions);
+      mempool = [...snapshot.mempool];
+      lastBlockHash = snapshot.lastBlockHash;
+    },
+    produceBlock,
+    /**
+     * Returns the transactions which were sent, but not yet included in a block.
+     */
+    pendingTransactions() {
+      return mempool.map(({ transaction }) => transaction);
+    },
   };
 }
+
+/**
+ * Configuration of the genesis ledger and genesis time of a {@link LocalBlockchain}.
+ */
+type GenesisConfig = {
+  /**
+   * Seed from which the private keys of the test accounts are derived, so that they are the same in every run.
+   * By default, random keys are used.
+   */
+  seed?: Field | number | bigint;
+  /**
+   * The accounts of the genesis ledger. By default, there are ten test accounts with 1000 MINA each.
+   */
+  accounts?: GenesisAccount[];
+  /**
+   * The genesis timestamp, in milliseconds since the Unix epoch. Defaults to the current time.
+   *
+   * With a fixed genesis timestamp, `currentSlot()` no longer depends on the current time, but returns the global slot of the network state.
+   */
+  timestamp?: UInt64 | number | bigint;
+};
+
+/**
+ * An account of the genesis ledger of a {@link LocalBlockchain}.
+ *
+ * If neither `privateKey` nor `publicKey` is given, the private key is derived from the seed, or random if there is no seed.
+ * Accounts with a private key and the default token are returned as `testAccounts`.
+ */
+type GenesisAccount = {
+  privateKey?: PrivateKey;
+  publicKey?: PublicKey;
+  /**
+   * The balance, in nanomina for MINA accounts and in the custom token for token accounts.
+   * Defaults to 1000 MINA for MINA accounts, and to 0 for token accounts.
+   */
+  balance?: UInt64 | number | bigint | string;
+  /**
+   * The owner of the custom token, if this is a token account. The token owner has to be listed before the token account.
+   */
+  tokenOwner?: PublicKey;
+  permissions?: Permissions;
+  appState?: Field[];
+  verificationKey?: { data: string; hash: Field | string };
+};
+
+type PendingTransaction = {
+  transaction: ZkappCommand;
+  commitment: Field;
+  hash: string;
+  resolve: (receipt: TransactionReceipt) => void;
+  reject: (err: Error) => void;
+};
+
+type LocalBlockchainSnapshot = {
+  ledgerHistoryLength: number;
+  mempool: PendingTransaction[];
+  lastBlockHash: Field;
+  networkState: NetworkValue;
+  events: Record<string, any>;
+  actions: Record<string, any>;
+};
+
+// copies the lists in a record of the form { [address]: { [tokenId]: list } }
+// the list items are never modified, so they don't need to be copied
+function cloneNestedLists(
+  record: Record<string, Record<string, unknown[]>>
+): Record<string, Record<string, unknown[]>> {
+  return Object.fromEntries(
+    Object.entries(record).map(([address, byToken]) => [
+      address,
+      Object.fromEntries(
+        Object.entries(byToken).map(([tokenId, list]) => [tokenId, [...list]])
+      ),
+    ])
+  );
+}
 // assert type compatibility without preventing LocalBlockchain to return additional properties / methods
 LocalBlockchain satisfies (...args: any) => Mina;
 
 /**
  * Represents the Mina blockchain running on a real network
  */
-function Network(graphqlEndpoint: string): Mina;
-function Network(graphqlEndpoints: { mina: string; archive: string }): Mina;
-function Network(input: { mina: string; archive: string } | string): Mina {
+function Network(graphqlEndpoint: string | string[]): Mina;
+function Network(graphqlEndpoints: {
+  mina: string | string[];
+  archive: string | string[];
+}): Mina;
+function Network(
+  input:
+    | { mina: string | string[]; archive: string | string[] }
+    | string
+    | string[]
+): Mina {
   let accountCreationFee = UInt64.from(defaultAccountCreationFee);
   let graphqlEndpoint: string;
   let archiveEndpoint: string;
 
-  if (input && typeof input === 'string') {
-    graphqlEndpoint = input;
-    Fetch.setGraphqlEndpoint(graphqlEndpoint);
-  } else if (input && typeof input === 'object') {
-    graphqlEndpoint = input.mina;
-    archiveEndpoint = input.archive;
-    Fetch.setGraphqlEndpoint(graphqlEndpoint);
-    Fetch.setArchiveGraphqlEndpoint(archiveEndpoint);
+  // lists of endpoints are a primary endpoint, followed by fallbacks
+  if (typeof input === 'string' || (Array.isArray(input) && input.length > 0)) {
+    let endpoints = typeof input === 'string' ? [input] : input;
+    graphqlEndpoint = endpoints[0];
+    Fetch.setGraphqlEndpoints(endpoints);
+  } else if (input && typeof input === 'object' && !Array.isArray(input)) {
+    let minaEndpoints =
+      typeof input.mina === 'string' ? [input.mina] : input.mina;
+    let archiveEndpoints =
+      typeof input.archive === 'string' ? [input.archive] : input.archive;
+    graphqlEndpoint = minaEndpoints[0];
+    archiveEndpoint = archiveEndpoints[0];
+    Fetch.setGraphqlEndpoints(minaEndpoints);
+    Fetch.setArchiveGraphqlEndpoints(archiveEndpoints);
   } else {
     throw new Error(
       "Network: malformed input. Please provide a string or an object with 'mina' and 'archive' endpoints."
@@ -627,6 +1299,252 @@ function Network(input: { mina: string; archive: string } | string): Mina {
   );
   // TODO also fetch from graphql
   const slotTime = UInt64.from(3 * 60 * 1000);
+
+  async function sendTransaction(
+    txn: Transaction
+  ): Promise<TransactionId & { data: any; errors: any[] | undefined }> {
+    txn.sign();
+
+    verifyTransactionLimits(txn.transaction.accountUpdates);
+
+    let [response, error] = await Fetch.sendZkapp(txn.toJSON());
+    let errors: any[] | undefined;
+    if (error === undefined) {
+      if (response!.data === null && (response as any).errors?.length > 0) {
+        console.log(
+          'got graphql errors',
+          JSON.stringify((response as any).errors, null, 2)
+        );
+        errors = (response as any).errors;
+      }
+    } else {
+      console.log('got fetch error', error);
+      errors = [error];
+    }
+    let isSuccess = errors === undefined;
+
+    // track the transaction, so that the next transaction of the fee payer uses the next nonce
+    let { publicKey: feePayer, nonce } = txn.transaction.feePayer.body;
+    let pending: Fetch.PendingTransaction | undefined;
+    let invalidated: Error | undefined;
+    let txId: string | undefined = response?.data?.sendZkapp?.zkapp?.id;
+    if (isSuccess && txId !== undefined) {
+      let json = txn.toJSON();
+      pending = {
+        nonce,
+        id: txId,
+        resubmissions: 0,
+        async resubmit() {
+          let [response, error] = await Fetch.sendZkapp(json);
+          let id = response?.data?.sendZkapp?.zkapp?.id;
+          if (error !== undefined) throw Error(error.statusText);
+          if (id === undefined) {
+            throw Error(JSON.stringify((response as any)?.errors));
+          }
+          return id;
+        },
+        invalidate(reason) {
+          invalidated = reason;
+        },
+      };
+      Fetch.addPendingTransaction(feePayer, pending, graphqlEndpoint);
+    } else if (
+      !Fetch.getPendingTransactions(feePayer, graphqlEndpoint).some((tx) =>
+        tx.nonce.equals(nonce).toBoolean()
+      )
+    ) {
+      // transactions with a higher nonce can't be included without this one
+      Fetch.invalidatePendingTransactions(
+        feePayer,
+        nonce,
+        Error(`Sending the transaction failed: ${JSON.stringify(errors)}`),
+        graphqlEndpoint
+      );
+    }
+
+    let maxAttempts: number;
+    let attempts = 0;
+    let interval: number;
+    let hash: string | undefined = response?.data?.sendZkapp?.zkapp?.hash;
+
+    async function fetchStatus() {
+      txId = pending?.id ?? txId;
+      return await Fetch.fetchTransactionInfo(
+        { id: txId!, hash: hash! },
+        graphqlEndpoint,
+        archiveEndpoint
+      );
+    }
+
+    return {
+      isSuccess,
+      data: response?.data,
+      errors,
+      async wait(options?: {
+        maxAttempts?: number;
+        interval?: number;
+        confirmations?: number;
+      }) {
+        if (!isSuccess) {
+          console.warn(
+            'Transaction.wait(): returning immediately because the transaction was not successful.'
+          );
+          return;
+        }
+        // default is 45 attempts * 20s each = 15min
+        // the block time on berkeley is currently longer than the average 3-4min, so its better to target a higher block time
+        // fetching an update every 20s is more than enough with a current block time of 3min
+        maxAttempts = options?.maxAttempts ?? 45;
+        interval = options?.interval ?? 20000;
+        let confirmations = options?.confirmations ?? 0;
+        if (archiveEndpoint === undefined && confirmations > 0) {
+          throw Error(
+            'Transaction.wait(): Waiting for confirmations needs an archive endpoint, see `Mina.Network({ mina, archive })`.'
+          );
+        }
+
+        const executePoll = async (
+          resolve: () => void,
+          reject: (err: Error) => void | Error
+        ) => {
+          let res: Fetch.TransactionInfo;
+          try {
+            // dropped transactions are sent again, and get a new id
+            await Fetch.reconcilePendingTransactions(feePayer, graphqlEndpoint);
+            if (invalidated !== undefined) return reject(invalidated);
+            if (archiveEndpoint === undefined) {
+              // without an archive node, the block of the transaction is unknown, so we only wait until the Mina node includes it
+              txId = pending?.id ?? txId;
+              let status = await Fetch.fetchTransactionStatus(
+                txId!,
+                graphqlEndpoint
+              );
+              if (status === 'INCLUDED') return resolve();
+              res = { status: 'pending' };
+            } else {
+              res = await fetchStatus();
+            }
+          } catch (error) {
+            return reject(error as Error);
+          }
+          attempts++;
+          if (res.status === 'included' && res.confirmations >= confirmations) {
+            return resolve();
+          } else if (res.status === 'failed') {
+            return reject(
+              failedTransactionError(txn.transaction, res, accountCreationFee)
+            );
+          } else if (res.status === 'dropped' && pending === undefined) {
+            // tracked transactions are sent again when they are dropped, until they are invalidated
+            return reject(
+              Error(
+                `The transaction was dropped by the Mina node. TransactionId: ${txId}`
+              )
+            );
+          } else if (maxAttempts && attempts === maxAttempts) {
+            let lastStatus =
+              res.status === 'included'
+                ? `included with ${res.confirmations} confirmations`
+                : res.status;
+            return reject(
+              new Error(
+                `Exceeded max attempts. TransactionId: ${txId}, attempts: ${attempts}, last received status: ${lastStatus}`
+              )
+            );
+          } else {
+            setTimeout(executePoll, interval, resolve, reject);
+          }
+        };
+
+        return new Promise(executePoll);
+      },
+      hash() {
+        return hash;
+      },
+      async receipt(): Promise<TransactionReceipt> {
+        throw Error(
+          'Transaction receipts are only supported by LocalBlockchain.'
+        );
+      },
+      async status() {
+        if (!isSuccess) {
+          throw Error('The transaction was not accepted by the Mina node.');
+        }
+        return await fetchStatus();
+      },
+      async replace({ fee, keys = [] }) {
+        let { transaction } = txn;
+        keys = [...keys, ...(signingKeys.get(txn) ?? [])];
+        return await sendReplacement(transaction, fee, keys);
+      },
+      async cancel({ fee, keys = [] } = {}) {
+        let { feePayer } = txn.transaction;
+        // by default, 10% more than the current fee
+        fee ??= feePayer.body.fee.add(feePayer.body.fee.div(10)).add(1);
+        keys = [...keys, ...(signingKeys.get(txn) ?? [])];
+        let transaction = { feePayer, accountUpdates: [], memo: '' };
+        return await sendReplacement(transaction, fee, keys);
+      },
+    };
+  }
+
+  // sends a transaction with the same fee payer and nonce as a pending transaction, but a higher fee
+  async function sendReplacement(
+    { feePayer, accountUpdates, memo }: ZkappCommand,
+    fee: number | string | UInt64,
+    keys: PrivateKey[]
+  ) {
+    let newFee = fee instanceof UInt64 ? fee : UInt64.from(String(fee));
+    if (newFee.lessThanOrEqual(feePayer.body.fee).toBoolean()) {
+      throw Error(
+        `The fee of a replacement transaction has to be higher than the fee of the transaction it replaces, which is ${feePayer.body.fee} nanomina.`
+      );
+    }
+    let replacement = signFullCommitment(
+      {
+        feePayer: {
+          body: { ...feePayer.body, fee: newFee },
+          authorization: feePayer.authorization,
+        },
+        accountUpdates,
+        memo,
+      },
+      keys
+    );
+    let replacementTransaction = newTransaction(replacement);
+    signingKeys.set(replacementTransaction, keys);
+    return await sendTransaction(replacementTransaction);
+  }
+
+  // assigns the nonce after the pending transactions of the sender, unless the nonce was set explicitly
+  async function withNextNonce(
+    feePayer: DeprecatedFeePayerSpec
+  ): Promise<DeprecatedFeePayerSpec> {
+    let feePayerSpec = normalizeFeePayerSpec(feePayer);
+    let { sender, nonce } = feePayerSpec;
+    if (sender === undefined || nonce !== undefined) return feePayer;
+    await Fetch.reconcilePendingTransactions(sender, graphqlEndpoint);
+    let account = Fetch.getCachedAccount(
+      sender,
+      TokenId.default,
+      graphqlEndpoint
+    );
+    if (account === undefined) return feePayer;
+    let nextNonce = Fetch.nextNonce(sender, account.nonce, graphqlEndpoint);
+    return { ...feePayerSpec, sender, nonce: Number(nextNonce.toBigint()) };
+  }
+
+  // the fees of the transactions in the mempool of the Mina node are used as recent fees
+  async function estimateFee({ transaction }: Transaction) {
+    let recentTransactions = await Fetch.fetchPooledZkappCommands(
+      graphqlEndpoint
+    );
+    return feeEstimate(
+      authorizationKinds(transaction.accountUpdates),
+      recentTransactions
+    );
+  }
+
   return {
     accountCreationFee: () => accountCreationFee,
     getNetworkConstants() {
@@ -695,94 +1613,49 @@ function Network(input: { mina: string; archive: string } | string): Mina {
         `getNetworkState: Could not fetch network state from graphql endpoint ${graphqlEndpoint}`
       );
     },
-    async sendTransaction(txn: Transaction) {
-      txn.sign();
-
-      verifyTransactionLimits(txn.transaction.accountUpdates);
-
-      let [response, error] = await Fetch.sendZkapp(txn.toJSON());
-      let errors: any[] | undefined;
-      if (error === undefined) {
-        if (response!.data === null && (response as any).errors?.length > 0) {
-          console.log(
-            'got graphql errors',
-            JSON.stringify((response as any).errors, null, 2)
-          );
-          errors = (response as any).errors;
-        }
-      } else {
-        console.log('got fetch error', error);
-        errors = [error];
+    sendTransaction,
+    async simulateTransaction({ transaction }: Transaction) {
+      let touched = touchedAccounts(transaction);
+      let accounts: Account[] = [];
+      for (let { publicKey, tokenId } of touched) {
+        let { account, error } = await Fetch.fetchAccount(
+          { publicKey, tokenId },
+          graphqlEndpoint
+        );
+        // accounts which don't exist yet are simply not copied
+        if (error !== undefined && error.statusCode !== 404)
+          throw Error(error.statusText);
+        if (account !== undefined) accounts.push(account);
       }
-      let isSuccess = errors === undefined;
-
-      let maxAttempts: number;
-      let attempts = 0;
-      let interval: number;
-
-      return {
-        isSuccess,
-        data: response?.data,
-        errors,
-        async wait(options?: { maxAttempts?: number; interval?: number }) {
-          if (!isSuccess) {
-            console.warn(
-              'Transaction.wait(): returning immediately because the transaction was not successful.'
-            );
-            return;
-          }
-          // default is 45 attempts * 20s each = 15min
-          // the block time on berkeley is currently longer than the average 3-4min, so its better to target a higher block time
-          // fetching an update every 20s is more than enough with a current block time of 3min
-          maxAttempts = options?.maxAttempts ?? 45;
-          interval = options?.interval ?? 20000;
-
-          const executePoll = async (
-            resolve: () => void,
-            reject: (err: Error) => void | Error
-          ) => {
-            let txId = response?.data?.sendZkapp?.zkapp?.id;
-            let res;
-            try {
-              res = await Fetch.fetchTransactionStatus(txId);
-            } catch (error) {
-              return reject(error as Error);
-            }
-            attempts++;
-            if (res === 'INCLUDED') {
-              return resolve();
-            } else if (maxAttempts && attempts === maxAttempts) {
-              return reject(
-                new Error(
-                  `Exceeded max attempts. TransactionId: ${txId}, attempts: ${attempts}, last received status: ${res}`
-                )
-              );
-            } else {
-              setTimeout(executePoll, interval, resolve, reject);
-            }
-          };
-
-          return new Promise(executePoll);
-        },
-        hash() {
-          return response?.data?.sendZkapp?.zkapp?.hash;
-        },
-      };
+      let networkState = await Fetch.fetchLastBlock(graphqlEndpoint);
+      let context = { networkState, accountCreationFee };
+      let ledger = replicateAccounts(
+        accounts,
+        touched.map(({ publicKey }) => publicKey),
+        context
+      );
+      return simulateOnLedger(ledger, transaction, {
+        ...context,
+        replicatedAccounts: accounts,
+      });
     },
     async transaction(sender: DeprecatedFeePayerSpec, f: () => void) {
       let tx = createTransaction(sender, f, 0, {
         fetchMode: 'test',
         isFinalRunOutsideCircuit: false,
       });
-      await Fetch.fetchMissingData(graphqlEndpoint);
+      await Fetch.fetchMissingData(graphqlEndpoint, archiveEndpoint);
       let hasProofs = tx.transaction.accountUpdates.some(
         Authorization.hasLazyProof
       );
-      return createTransaction(sender, f, 1, {
+      let feePayer = await withNextNonce(sender);
+      tx = createTransaction(feePayer, f, 1, {
         fetchMode: 'cached',
         isFinalRunOutsideCircuit: !hasProofs,
       });
+      return setAutoFee(tx, feePayer, estimateFee);
     },
+    estimateFee,
     async fetchEvents(
       publicKey: PublicKey,
       tokenId: Field = TokenId.default,
@@ -797,9 +1670,59 @@ function Network(input: { mina: string; archive: string } | string): Mina {
         filterOptions
       );
     },
-    getActions() {
+    async fetchActions(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default,
+      actionStates?: ActionStates
+    ) {
+      // the archive node only returns the actions in the requested range, so they don't have to be sliced
+      return Fetch.fetchActions(
+        {
+          publicKey: publicKey.toBase58(),
+          tokenId: TokenId.toBase58(tokenId),
+          actionStates: actionStatesToBase58(actionStates),
+        },
+        archiveEndpoint
+      );
+    },
+    getActions(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default,
+      actionStates?: ActionStates
+    ) {
+      let actionStatesBase58 = actionStatesToBase58(actionStates);
+      if (currentTransaction()?.fetchMode === 'test') {
+        Fetch.markActionsToBeFetched(
+          publicKey,
+          tokenId,
+          archiveEndpoint,
+          actionStatesBase58
+        );
+        let actions = Fetch.getCachedActions(
+          publicKey,
+          tokenId,
+          actionStatesBase58,
+          archiveEndpoint
+        );
+        return actions ?? [];
+      }
+      if (
+        !currentTransaction.has() ||
+        currentTransaction.get().fetchMode === 'cached'
+      ) {
+        let actions = Fetch.getCachedActions(
+          publicKey,
+          tokenId,
+          actionStatesBase58,
+          archiveEndpoint
+        );
+        if (actions !== undefined) return actions;
+      }
       throw Error(
-        'fetchEvents() is not implemented yet for remote blockchains.'
+        `getActions: Could not find actions for the public key ${publicKey.toBase58()} in the range ${JSON.stringify(
+          actionStatesBase58
+        )}.\n` +
+          `Either call this inside \`Mina.transaction\`, or fetch the actions for the same range first with \`Mina.fetchActions\`.\nArchive endpoint: ${archiveEndpoint}`
       );
     },
     proofsEnabled: true,
@@ -815,7 +1738,7 @@ function BerkeleyQANet(graphqlEndpoint: string) {
   return Network(graphqlEndpoint);
 }
 
-let activeInstance: Mina = {
+const defaultInstance: Mina = {
   accountCreationFee: () => UInt64.from(defaultAccountCreationFee),
   getNetworkConstants() {
     throw new Error('must call Mina.setActiveInstance first');
@@ -871,17 +1794,27 @@ let activeInstance: Mina = {
   sendTransaction() {
     throw new Error('must call Mina.setActiveInstance first');
   },
+  simulateTransaction() {
+    throw new Error('must call Mina.setActiveInstance first');
+  },
+  estimateFee() {
+    throw new Error('must call Mina.setActiveInstance first');
+  },
   async transaction(sender: DeprecatedFeePayerSpec, f: () => void) {
     return createTransaction(sender, f, 0);
   },
   fetchEvents(publicKey: PublicKey, tokenId: Field = TokenId.default) {
     throw Error('must call Mina.setActiveInstance first');
   },
+  async fetchActions(publicKey: PublicKey, tokenId: Field = TokenId.default) {
+    throw Error('must call Mina.setActiveInstance first');
+  },
   getActions() {
     throw Error('must call Mina.setActiveInstance first');
   },
   proofsEnabled: true,
 };
+let activeInstance = defaultInstance;
 
 /**
  * Set the currently used Mina instance.
@@ -890,6 +1823,53 @@ function setActiveInstance(m: Mina) {
   activeInstance = m;
 }
 
+/**
+ * A Mina instance which only knows copies of some accounts and of the network state.
+ *
+ * Prover workers use it to run smart contract methods without access to the blockchain,
+ * with copies of the accounts that are touched by the transaction.
+ */
+function ReplicatedState({
+  accounts,
+  networkState,
+}: {
+  accounts: Account[];
+  networkState?: NetworkValue;
+}): Mina {
+  function findAccount(publicKey: PublicKey, tokenId: Field) {
+    return accounts.find((account) =>
+      account.publicKey
+        .equals(publicKey)
+        .and(account.tokenId.equals(tokenId))
+        .toBoolean()
+    );
+  }
+  return {
+    ...defaultInstance,
+    hasAccount(publicKey: PublicKey, tokenId: Field = TokenId.default) {
+      return findAccount(publicKey, tokenId) !== undefined;
+    },
+    getAccount(publicKey: PublicKey, tokenId: Field = TokenId.default) {
+      let account = findAccount(publicKey, tokenId);
+      if (account === undefined)
+        throw Error(
+          `${reportGetAccountError(
+            publicKey.toBase58(),
+            TokenId.toBase58(tokenId)
+          )}\nOnly the accounts which are touched by the transaction are available to prover workers.`
+        );
+      return account;
+    },
+    getNetworkState() {
+      if (networkState === undefined)
+        throw Error(
+          'getNetworkState: The network state was not available when the proof was requested.'
+        );
+      return networkState;
+    },
+  };
+}
+
 /**
  * Construct a smart contract transaction. Within the callback passed to this function,
  * you can call into the methods of smart contracts.
@@ -1009,6 +1989,17 @@ async function sendTransaction(txn: Transaction) {
   return await activeInstance.sendTransaction(txn);
 }
 
+/**
+ * Estimates the fee of a transaction, in nanomina. This is used by `Mina.transaction({ sender, fee: 'auto' }, ...)`.
+ *
+ * The estimate is based on the cost of the transaction, which depends on the number of proofs and signatures,
+ * and is never lower than the minimum fee of 0.001 MINA per account update.
+ * If other transactions are waiting in the mempool, the estimate follows the median fee they pay per unit of cost.
+ */
+async function estimateFee(txn: Transaction) {
+  return await activeInstance.estimateFee(txn);
+}
+
 /**
  * @return A list of emitted events associated to the given public key.
  */
@@ -1020,11 +2011,65 @@ async function fetchEvents(
   return await activeInstance.fetchEvents(publicKey, tokenId, filterOptions);
 }
 
+/**
+ * Fetches the list of emitted sequencing actions associated to the given public key, optionally restricted to a range of action hashes.
+ *
+ * On {@link Network}, the actions are fetched from the archive node and cached, so that they are subsequently available through {@link getActions}.
+ * @return A list of emitted sequencing actions associated to the given public key.
+ */
+async function fetchActions(
+  publicKey: PublicKey,
+  tokenId?: Field,
+  actionStates?: ActionStates
+) {
+  return await activeInstance.fetchActions(publicKey, tokenId, actionStates);
+}
+
 /**
  * @return A list of emitted sequencing actions associated to the given public key.
  */
-function getActions(publicKey: PublicKey, tokenId: Field) {
-  return activeInstance.getActions(publicKey, tokenId);
+function getActions(
+  publicKey: PublicKey,
+  tokenId?: Field,
+  actionStates?: ActionStates
+) {
+  return activeInstance.getActions(publicKey, tokenId, actionStates);
+}
+
+// returns the actions between `fromActionHash` (exclusive) and `endActionHash` (inclusive)
+// throws if one of the hashes is not contained in the list, instead of returning a different range
+function sliceActions(
+  actions: { hash: string; actions: string[][] }[],
+  actionStates: ActionStates = {}
+) {
+  let { fromActionHash, endActionHash } = actionStatesToBase58(actionStates);
+  let startIndex = 0;
+  if (fromActionHash !== undefined) {
+    startIndex = actions.findIndex((e) => e.hash === fromActionHash) + 1;
+    if (startIndex === 0)
+      throw Error(`getActions: Unknown fromActionHash ${fromActionHash}.`);
+  }
+  let endIndex: number | undefined;
+  if (endActionHash !== undefined) {
+    endIndex = actions.findIndex((e) => e.hash === endActionHash) + 1;
+    if (endIndex === 0)
+      throw Error(`getActions: Unknown endActionHash ${endActionHash}.`);
+  }
+  return actions.slice(startIndex, endIndex);
+}
+
+function actionStatesToBase58({
+  fromActionHash,
+  endActionHash,
+}: ActionStates = {}): Fetch.ActionStatesStringified {
+  // if the fromActionHash is the empty state, we want all actions
+  if (fromActionHash?.equals(SequenceEvents.emptySequenceState()).toBoolean()) {
+    fromActionHash = undefined;
+  }
+  return {
+    fromActionHash: fromActionHash && Ledger.fieldToBase58(fromActionHash),
+    endActionHash: endActionHash && Ledger.fieldToBase58(endActionHash),
+  };
 }
 
 function getProofsEnabled() {
@@ -1037,6 +2082,57 @@ function dummyAccount(pubkey?: PublicKey): Account {
   return dummy;
 }
 
+function deriveTestAccountKey(seed: Field | number | bigint, index: number) {
+  let bits = Poseidon.hash([Field(seed), Field(index)]).toBits();
+  return PrivateKey.fromBits(bits);
+}
+
+// a transaction which sets the parts of genesis accounts that `Ledger.addAccount()` can't set, and creates token accounts
+function genesisTransaction(
+  accounts: (GenesisAccount & { publicKey: PublicKey })[],
+  feePayer: PublicKey,
+  accountCreationFee: UInt64
+): ZkappCommand {
+  let accountUpdates: AccountUpdate[] = [];
+  let funder = dummySignedUpdate(feePayer);
+  accountUpdates.push(funder);
+
+  for (let account of accounts) {
+    let { publicKey, tokenOwner, permissions, appState, verificationKey } =
+      account;
+    let accountUpdate: AccountUpdate;
+    if (tokenOwner === undefined) {
+      accountUpdate = dummySignedUpdate(publicKey);
+      accountUpdates.push(accountUpdate);
+    } else {
+      let ownerUpdate = dummySignedUpdate(tokenOwner);
+      accountUpdate = dummySignedUpdate(publicKey, Token.getId(tokenOwner));
+      accountUpdate.body.callDepth = 1;
+      accountUpdate.balance.addInPlace(UInt64.from(account.balance ?? 0));
+      funder.balance.subInPlace(accountCreationFee);
+      accountUpdates.push(ownerUpdate, accountUpdate);
+    }
+    let { update } = accountUpdate;
+    if (permissions !== undefined) {
+      AccountUpdate.setValue(update.permissions, permissions);
+    }
+    appState?.forEach((x, i) => {
+      AccountUpdate.setValue(update.appState[i], x);
+    });
+    if (verificationKey !== undefined) {
+      AccountUpdate.setValue(update.verificationKey, {
+        data: verificationKey.data,
+        hash: Field(verificationKey.hash),
+      });
+    }
+  }
+  return {
+    feePayer: AccountUpdate.defaultFeePayer(feePayer, UInt32.zero),
+    accountUpdates,
+    memo: '',
+  };
+}
+
 function defaultNetworkState(): NetworkValue {
   let epochData: NetworkValue['stakingEpochData'] = {
     ledger: { hash: Field(0), totalCurrency: UInt64.zero },
@@ -1233,41 +2329,19 @@ async function verifyAccountUpdate(
 }
 
 function verifyTransactionLimits(accountUpdates: AccountUpdate[]) {
-  // constants used to calculate cost of a transaction - originally defined in the genesis_constants file in the mina repo
-  const proofCost = 10.26;
-  const signedPairCost = 10.08;
-  const signedSingleCost = 9.14;
-  const costLimit = 69.45;
-
   // constants that define the maximum number of events in one transaction
   const maxActionElements = 16;
   const maxEventElements = 16;
 
   let eventElements = { events: 0, actions: 0 };
+  accountUpdates.forEach((update) => {
+    eventElements.events += countEventElements(update.body.events);
+    eventElements.actions += countEventElements(update.body.actions);
+  });
 
-  let authTypes = filterGroups(
-    accountUpdates.map((update) => {
-      let json = update.toJSON();
-      eventElements.events += countEventElements(update.body.events);
-      eventElements.actions += countEventElements(update.body.actions);
-      return json.body.authorizationKind;
-    })
-  );
-  /*
-  np := proof
-  n2 := signedPair
-  n1 := signedSingle
-  
-  formula used to calculate how expensive a zkapp transaction is
-
-  10.26*np + 10.08*n2 + 9.14*n1 < 69.45
-  */
-  let totalTimeRequired =
-    proofCost * authTypes.proof +
-    signedPairCost * authTypes.signedPair +
-    signedSingleCost * authTypes.signedSingle;
-
-  let isWithinCostLimit = totalTimeRequired < costLimit;
+  let { authTypes, cost } = transactionCost(authorizationKinds(accountUpdates));
+
+  let isWithinCostLimit = cost < costLimit;
 
   let isWithinEventsLimit = eventElements.events <= maxEventElements;
   let isWithinActionsLimit = eventElements.actions <= maxActionElements;
@@ -1299,44 +2373,6 @@ function countEventElements({ data }: Events) {
   return data.reduce((acc, ev) => acc + ev.length, 0);
 }
 
-type AuthorizationKind = { isProved: boolean; isSigned: boolean };
-
-const isPair = (a: AuthorizationKind, b: AuthorizationKind) =>
-  !a.isProved && !b.isProved;
-
-function filterPairs(xs: AuthorizationKind[]): {
-  xs: { isProved: boolean; isSigned: boolean }[];
-  pairs: number;
-} {
-  if (xs.length <= 1) return { xs, pairs: 0 };
-  if (isPair(xs[0], xs[1])) {
-    let rec = filterPairs(xs.slice(2));
-    return { xs: rec.xs, pairs: rec.pairs + 1 };
-  } else {
-    let rec = filterPairs(xs.slice(1));
-    return { xs: [xs[0]].concat(rec.xs), pairs: rec.pairs };
-  }
-}
-
-function filterGroups(xs: AuthorizationKind[]) {
-  let pairs = filterPairs(xs);
-  xs = pairs.xs;
-
-  let singleCount = 0;
-  let proofCount = 0;
-
-  xs.forEach((t) => {
-    if (t.isProved) proofCount++;
-    else singleCount++;
-  });
-
-  return {
-    signedPair: pairs.pairs,
-    signedSingle: singleCount,
-    proof: proofCount,
-  };
-}
-
 async function waitForFunding(address: string): Promise<void> {
   let attempts = 0;
   let maxAttempts = 30;
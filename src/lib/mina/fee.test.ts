@@ -0,0 +1,95 @@
+import {
+  isReady,
+  shutdown,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  AccountUpdate,
+  UInt64,
+  startMockGraphqlServer,
+  MockGraphqlServer,
+} from 'snarkyjs';
+
+describe('fee estimation', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let server: MockGraphqlServer;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+
+  // a transaction with one signed account update per key
+  function signedUpdates(keys: PrivateKey[]) {
+    keys.forEach((key) => AccountUpdate.createSigned(key.toPublicKey()));
+  }
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({
+      proofsEnabled: false,
+      blockProduction: 'manual',
+    });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    server = await startMockGraphqlServer(Local);
+  });
+  afterAll(async () => {
+    await server.close();
+    setTimeout(shutdown, 0);
+  });
+
+  it('uses the minimum fee per account update when the mempool is empty', async () => {
+    let tx = await Mina.transaction({ sender: feePayer, fee: 'auto' }, () =>
+      signedUpdates([feePayerKey, Local.testAccounts[1].privateKey])
+    );
+    expect(tx.transaction.feePayer.body.fee).toEqual(UInt64.from(2e6));
+  });
+
+  it('follows the fees per cost of the transactions in the mempool, up to the maximum fee', async () => {
+    // a pending transaction with one signed account update, which pays 1 MINA
+    let { publicKey, privateKey } = Local.testAccounts[2];
+    let pending = await Mina.transaction({ sender: publicKey, fee: 1e9 }, () =>
+      signedUpdates([privateKey])
+    );
+    await pending.sign([privateKey]).send();
+    expect(Local.pendingTransactions()).toHaveLength(1);
+
+    let tx = await Mina.transaction({ sender: feePayer, fee: 'auto' }, () =>
+      signedUpdates([feePayerKey])
+    );
+    expect(tx.transaction.feePayer.body.fee).toEqual(UInt64.from(1e9));
+
+    // a pair of signed account updates costs 10.08, compared to 9.14 for a single one
+    tx = await Mina.transaction({ sender: feePayer, fee: 'auto' }, () =>
+      signedUpdates([feePayerKey, Local.testAccounts[1].privateKey])
+    );
+    expect(tx.transaction.feePayer.body.fee).toEqual(
+      UInt64.from(Math.ceil((1e9 / 9.14) * 10.08))
+    );
+    expect(await Mina.estimateFee(tx)).toEqual(
+      tx.transaction.feePayer.body.fee
+    );
+
+    tx = await Mina.transaction(
+      { sender: feePayer, fee: 'auto', maxFee: 5e8 },
+      () => signedUpdates([feePayerKey])
+    );
+    expect(tx.transaction.feePayer.body.fee).toEqual(UInt64.from(5e8));
+
+    await expect(
+      Mina.transaction({ sender: feePayer, fee: 'auto', maxFee: 1 }, () =>
+        signedUpdates([feePayerKey])
+      )
+    ).rejects.toThrow(/lower than the minimum fee/);
+  });
+
+  it('fetches the mempool from a Mina node', async () => {
+    Mina.setActiveInstance(
+      Mina.Network({ mina: server.endpoint, archive: server.endpoint })
+    );
+    let tx = await Mina.transaction({ sender: feePayer, fee: 'auto' }, () =>
+      signedUpdates([feePayerKey])
+    );
+    expect(tx.transaction.feePayer.body.fee).toEqual(UInt64.from(1e9));
+    Mina.setActiveInstance(Local);
+  });
+});
@@ -0,0 +1,139 @@
+import { UInt64 } from '../int.js';
+import type { AccountUpdate, ZkappCommand } from '../account_update.js';
+
+export { feeEstimate, FeeSample, feeSample };
+// for internal use only
+export {
+  AuthorizationKind,
+  authorizationKinds,
+  transactionCost,
+  filterGroups,
+  costLimit,
+  minimumFee,
+};
+
+// constants used to calculate cost of a transaction - originally defined in the genesis_constants file in the mina repo
+const proofCost = 10.26;
+const signedPairCost = 10.08;
+const signedSingleCost = 9.14;
+const costLimit = 69.45;
+
+// the smallest fee accepted by Mina nodes for every account update, in nanomina, see `MinaSigner.getAccountUpdateMinimumFee()`
+const minimumFeePerAccountUpdate = 1e6;
+
+type AuthorizationKind = { isProved: boolean; isSigned: boolean };
+
+/**
+ * The fee paid by a transaction, together with the kinds of authorization of its account updates,
+ * which determine how expensive the transaction is to process.
+ */
+type FeeSample = {
+  fee: UInt64;
+  authorizationKinds: AuthorizationKind[];
+};
+
+/**
+ * Estimates the fee of a transaction, based on its cost and the fees paid by other recent transactions.
+ *
+ * The cost of a transaction is the same that is used to check the transaction limits,
+ * where proofs, pairs of signed account updates and single signed account updates each have a fixed cost.
+ *
+ * Without other transactions, the estimate is the minimum fee of 0.001 MINA per account update.
+ * Otherwise, it's the median fee per unit of cost of the other transactions, multiplied by the cost of this transaction,
+ * but never less than the minimum fee.
+ *
+ * @param authorizationKinds The kinds of authorization of the account updates of the transaction.
+ * @param recentTransactions Transactions which were recently sent to the network, e.g. the ones in the mempool.
+ * @returns The estimated fee, in nanomina.
+ */
+function feeEstimate(
+  authorizationKinds: AuthorizationKind[],
+  recentTransactions: FeeSample[] = []
+): UInt64 {
+  let fee = minimumFee(authorizationKinds);
+  let rates = recentTransactions
+    .map((sample) => Number(sample.fee.toBigInt()) / weight(sample))
+    .sort((a, b) => a - b);
+  if (rates.length > 0) {
+    let medianRate = rates[Math.floor(rates.length / 2)];
+    fee = Math.max(fee, Math.ceil(medianRate * weight({ authorizationKinds })));
+  }
+  return UInt64.from(fee);
+}
+
+function minimumFee(authorizationKinds: AuthorizationKind[]) {
+  return minimumFeePerAccountUpdate * Math.max(authorizationKinds.length, 1);
+}
+
+// the cost of a transaction, where a transaction without account updates costs as much as one signed account update
+function weight({ authorizationKinds }: Pick<FeeSample, 'authorizationKinds'>) {
+  return Math.max(transactionCost(authorizationKinds).cost, signedSingleCost);
+}
+
+function feeSample({ feePayer, accountUpdates }: ZkappCommand): FeeSample {
+  return {
+    fee: feePayer.body.fee,
+    authorizationKinds: authorizationKinds(accountUpdates),
+  };
+}
+
+function authorizationKinds(accountUpdates: AccountUpdate[]) {
+  return accountUpdates.map(({ body: { authorizationKind } }) => ({
+    isProved: authorizationKind.isProved.toBoolean(),
+    isSigned: authorizationKind.isSigned.toBoolean(),
+  }));
+}
+
+/*
+np := proof
+n2 := signedPair
+n1 := signedSingle
+
+formula used to calculate how expensive a zkapp transaction is
+
+10.26*np + 10.08*n2 + 9.14*n1 < 69.45
+*/
+function transactionCost(authorizationKinds: AuthorizationKind[]) {
+  let authTypes = filterGroups(authorizationKinds);
+  let cost =
+    proofCost * authTypes.proof +
+    signedPairCost * authTypes.signedPair +
+    signedSingleCost * authTypes.signedSingle;
+  return { authTypes, cost };
+}
+
+const isPair = (a: AuthorizationKind, b: AuthorizationKind) =>
+  !a.isProved && !b.isProved;
+
+function filterPairs(xs: AuthorizationKind[]): {
+  xs: { isProved: boolean; isSigned: boolean }[];
+  pairs: number;
+} {
+  if (xs.length <= 1) return { xs, pairs: 0 };
+  if (isPair(xs[0], xs[1])) {
+    let rec = filterPairs(xs.slice(2));
+    return { xs: rec.xs, pairs: rec.pairs + 1 };
+  } else {
+    let rec = filterPairs(xs.slice(1));
+    return { xs: [xs[0]].concat(rec.xs), pairs: rec.pairs };
+  }
+}
+
+function filterGroups(xs: AuthorizationKind[]) {
+  let pairs = filterPairs(xs);
+  xs = pairs.xs;
+
+  let singleCount = 0;
+  let proofCount = 0;
+
+  xs.forEach((t) => {
+    if (t.isProved) proofCount++;
+    else singleCount++;
+  });
+
+  return {
+    signedPair: pairs.pairs,
+    signedSingle: singleCount,
+    proof: proofCount,
+  };
+}
@@ -0,0 +1,193 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  SmartContract,
+  AccountUpdate,
+  State,
+  state,
+  method,
+  Reducer,
+  UInt64,
+  fetchAccount,
+  fetchLastBlock,
+  startMockGraphqlServer,
+  MockGraphqlServer,
+  TokenId,
+} from 'snarkyjs';
+
+class Counter extends SmartContract {
+  @state(Field) x = State<Field>();
+  reducer = Reducer({ actionType: Field });
+  events = { increment: Field };
+
+  @method increment(y: Field) {
+    this.x.set(y);
+    this.emitEvent('increment', y);
+    this.reducer.dispatch(y);
+  }
+}
+
+describe('mock GraphQL server', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let server: MockGraphqlServer;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappKey: PrivateKey;
+  let zkappAddress: PublicKey;
+  let zkapp: Counter;
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new Counter(zkappAddress);
+
+    // set up a zkApp on the local blockchain, without proofs
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+    tx = await Mina.transaction(feePayer, () => zkapp.increment(Field(5)));
+    await tx.prove();
+    await tx.sign([feePayerKey]).send();
+
+    server = await startMockGraphqlServer(Local);
+    Mina.setActiveInstance(
+      Mina.Network({ mina: server.endpoint, archive: server.endpoint })
+    );
+  });
+  afterAll(async () => {
+    await server.close();
+    setTimeout(shutdown, 0);
+  });
+
+  it('serves accounts', async () => {
+    let { account, error } = await fetchAccount(
+      { publicKey: zkappAddress },
+      server.endpoint
+    );
+    expect(error).toBeUndefined();
+    expect(account?.zkapp?.appState[0]).toEqual(Field(5));
+    expect(account?.balance).toEqual(Local.getAccount(zkappAddress).balance);
+
+    let missing = await fetchAccount(
+      { publicKey: PrivateKey.random().toPublicKey() },
+      server.endpoint
+    );
+    expect(missing.error?.statusCode).toEqual(404);
+  });
+
+  it('serves the last block', async () => {
+    let network = await fetchLastBlock(server.endpoint);
+    expect(network.blockchainLength).toEqual(
+      Local.getNetworkState().blockchainLength
+    );
+  });
+
+  it('serves events and actions', async () => {
+    let events = await Mina.fetchEvents(zkappAddress, TokenId.default);
+    expect(events.map((e) => e.events)).toEqual([[['5']]]);
+
+    let actions = await Mina.fetchActions(zkappAddress);
+    expect(actions).toEqual(Local.getActions(zkappAddress));
+  });
+
+  it('fetches and caches actions by range', async () => {
+    let firstHash = Local.getAccount(zkappAddress).zkapp!.sequenceState[0];
+
+    // dispatch a second action on the local blockchain
+    let network = Mina.activeInstance;
+    Mina.setActiveInstance(Local);
+    let tx = await Mina.transaction(feePayer, () => zkapp.increment(Field(6)));
+    await tx.prove();
+    await tx.sign([feePayerKey]).send();
+    Mina.setActiveInstance(network);
+    let allActions = Local.getActions(zkappAddress);
+    expect(allActions.length).toEqual(2);
+
+    let actions = await Mina.fetchActions(zkappAddress, TokenId.default, {
+      fromActionHash: firstHash,
+    });
+    expect(actions).toEqual(allActions.slice(1));
+    let earlierActions = await Mina.fetchActions(
+      zkappAddress,
+      TokenId.default,
+      { endActionHash: firstHash }
+    );
+    expect(earlierActions).toEqual(allActions.slice(0, 1));
+
+    // each range is cached separately, and a range that wasn't fetched is not served from another one
+    expect(
+      Mina.getActions(zkappAddress, TokenId.default, {
+        fromActionHash: firstHash,
+      })
+    ).toEqual(actions);
+    expect(
+      Mina.getActions(zkappAddress, TokenId.default, {
+        endActionHash: firstHash,
+      })
+    ).toEqual(earlierActions);
+    expect(() =>
+      Mina.getActions(zkappAddress, TokenId.default, {
+        fromActionHash: firstHash,
+        endActionHash: firstHash,
+      })
+    ).toThrow(/Could not find actions/);
+
+    // hashes which are not in the list of actions are rejected, instead of being ignored
+    expect(() =>
+      Local.getActions(zkappAddress, TokenId.default, {
+        fromActionHash: Field(123),
+      })
+    ).toThrow(/Unknown fromActionHash/);
+    expect(() =>
+      Local.getActions(zkappAddress, TokenId.default, {
+        endActionHash: Field(123),
+      })
+    ).toThrow(/Unknown endActionHash/);
+    await expect(
+      Mina.fetchActions(zkappAddress, TokenId.default, {
+        fromActionHash: Field(123),
+      })
+    ).rejects.toThrow(/Failed to fetch actions/);
+  });
+
+  it('applies sent transactions and reports them as included', async () => {
+    let receiver = Local.testAccounts[1].publicKey;
+    let balanceBefore = Local.getAccount(receiver).balance;
+
+    let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () => {
+      AccountUpdate.createSigned(feePayer).send({
+        to: receiver,
+        amount: UInt64.from(1e9),
+      });
+    });
+    let txId = await tx.sign([feePayerKey]).send();
+    expect(txId.isSuccess).toEqual(true);
+    await txId.wait({ interval: 10, maxAttempts: 3 });
+
+    expect(Local.getAccount(receiver).balance).toEqual(
+      balanceBefore.add(UInt64.from(1e9))
+    );
+  });
+
+  it('returns failed transactions as GraphQL errors', async () => {
+    let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () => {
+      AccountUpdate.createSigned(feePayer).send({
+        to: Local.testAccounts[1].publicKey,
+        amount: UInt64.from(10n ** 18n),
+      });
+    });
+    let txId = await tx.sign([feePayerKey]).send();
+    expect(txId.isSuccess).toEqual(false);
+  });
+});
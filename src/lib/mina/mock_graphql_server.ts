@@ -0,0 +1,396 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Ledger } from '../../snarky.js';
+import { Field } from '../core.js';
+import { UInt32 } from '../int.js';
+import { PublicKey } from '../signature.js';
+import { SequenceEvents, TokenId, ZkappCommand } from '../account_update.js';
+import { Types } from '../../provable/types.js';
+import * as Encoding from '../encoding.js';
+import { LocalBlockchain, newTransaction } from '../mina.js';
+import { NetworkValue } from '../precondition.js';
+import { FetchedAccount } from './account.js';
+import { TransactionStatus } from '../fetch.js';
+import { TransactionReceipt } from './receipt.js';
+
+export { startMockGraphqlServer, MockGraphqlServer };
+
+type LocalBlockchain = ReturnType<typeof LocalBlockchain>;
+
+/**
+ * A running mock GraphQL server, see {@link startMockGraphqlServer}.
+ */
+type MockGraphqlServer = {
+  /**
+   * The URL of the GraphQL endpoint, which can be passed to `Mina.Network()` both as `mina` and `archive` endpoint.
+   */
+  endpoint: string;
+  /**
+   * Stops the server.
+   */
+  close(): Promise<void>;
+};
+
+/**
+ * Starts a GraphQL server which answers the queries sent by `Mina.Network()` and the `fetch*` functions with data from
+ * a {@link LocalBlockchain}, so that code which talks to a Mina node and archive node can be tested offline.
+ *
+ * The server understands exactly the queries which snarkyjs sends:
+ * accounts, the last block, sending a zkApp transaction, transaction status, pooled zkApp transactions, and the archived
+ * transactions, events and actions.
+ * Sent transactions are sent to the `LocalBlockchain`. Their status is `PENDING` while they wait in its mempool,
+ * if it uses block production, `INCLUDED` afterwards, and `UNKNOWN` if they were replaced.
+ * Included transactions are archived in the block at the height of the `LocalBlockchain` at the time they were applied.
+ *
+ * This is only available in Node.js.
+ *
+ * ```ts
+ * let Local = Mina.LocalBlockchain({ proofsEnabled: false });
+ * let server = await startMockGraphqlServer(Local);
+ * Mina.setActiveInstance(Mina.Network({ mina: server.endpoint, archive: server.endpoint }));
+ * // ...
+ * await server.close();
+ * ```
+ * @param local The `LocalBlockchain` which holds the ledger and network state.
+ * @param options.port The port to listen on. By default, a random free port is used.
+ * @returns A {@link MockGraphqlServer}
+ */
+async function startMockGraphqlServer(
+  local: LocalBlockchain,
+  { port = 0 } = {}
+): Promise<MockGraphqlServer> {
+  let transactionStatuses = new Map<string, TransactionStatus>();
+  let transactionCount = 0;
+  // block heights and failure reasons of the included transactions, by hash
+  let includedTransactions = new Map<
+    string,
+    { height: number; failureReason: FailureReason | null }
+  >();
+
+  function includeTransaction(hash: string, receipt: TransactionReceipt) {
+    let height = Number(local.getNetworkState().blockchainLength.toString());
+    let failureReason: FailureReason = [];
+    receipt.errors.forEach(({ code, accountUpdateIndex }) => {
+      // like on a Mina node, index 0 is the fee payer
+      let index = String(
+        accountUpdateIndex === undefined ? 0 : accountUpdateIndex + 1
+      );
+      let reason = failureReason.find((reason) => reason.index === index);
+      if (reason === undefined) failureReason.push({ index, failures: [code] });
+      else reason.failures.push(code);
+    });
+    includedTransactions.set(hash, {
+      height,
+      failureReason: failureReason.length === 0 ? null : failureReason,
+    });
+  }
+
+  function archivedTransaction(hash: string) {
+    let included = includedTransactions.get(hash);
+    if (included === undefined) return null;
+    let { height, failureReason } = included;
+    let bestHeight = Number(
+      local.getNetworkState().blockchainLength.toString()
+    );
+    return {
+      blockInfo: {
+        distanceFromMaxBlockHeight: bestHeight - height,
+        height,
+        stateHash: mockStateHash(height),
+      },
+      transactionInfo: { hash, failureReason },
+    };
+  }
+
+  async function sendZkapp(zkappCommandJson: string) {
+    let json = JSON.parse(addJsonQuotes(zkappCommandJson));
+    let transaction = newTransaction(
+      ZkappCommand.fromJSON(json),
+      local.proofsEnabled
+    );
+    let txId = await local.sendTransaction(transaction);
+    let id = `mock-zkapp-${transactionCount++}`;
+    let hash = `mock-hash-${id}`;
+    transactionStatuses.set(id, 'PENDING');
+    // failed transactions are included as well, only replaced transactions are dropped
+    txId.receipt().then(
+      (receipt) => {
+        transactionStatuses.set(id, 'INCLUDED');
+        includeTransaction(hash, receipt);
+      },
+      () => transactionStatuses.set(id, 'UNKNOWN')
+    );
+    return {
+      zkapp: {
+        hash,
+        id,
+        failureReason: null,
+        zkappCommand: json,
+      },
+    };
+  }
+
+  async function resolve(query: string): Promise<any> {
+    let match: RegExpExecArray | null;
+    if (
+      (match = /sendZkapp\(input: \{\s*zkappCommand: ([\s\S]*)\}\)\s*\{/.exec(
+        query
+      ))
+    ) {
+      return { sendZkapp: await sendZkapp(match[1]) };
+    }
+    if ((match = /account\(publicKey: "(\w+)", token: "(\w+)"\)/.exec(query))) {
+      let [, publicKey, tokenId] = match;
+      return { account: fetchedAccount(local, publicKey, tokenId) };
+    }
+    if (/pooledZkappCommands/.test(query)) {
+      let pooledZkappCommands = local
+        .pendingTransactions()
+        .map((transaction) => ({
+          zkappCommand: ZkappCommand.toJSON(transaction),
+        }));
+      return { pooledZkappCommands };
+    }
+    if (/bestChain\(maxLength: 1\)/.test(query)) {
+      return { bestChain: [fetchedBlock(local.getNetworkState())] };
+    }
+    if (
+      (match = /transactionStatus\(zkappTransaction:"([^"]*)"\)/.exec(query))
+    ) {
+      let transactionStatus = transactionStatuses.get(match[1]);
+      if (transactionStatus === undefined)
+        throw Error(`Unknown transaction id: ${match[1]}`);
+      return { transactionStatus };
+    }
+    if ((match = /transaction\(input: \{ hash: "([^"]*)" \}\)/.exec(query))) {
+      return { transaction: archivedTransaction(match[1]) };
+    }
+    if ((match = /events\(input: \{ (.*) \}\)/.exec(query))) {
+      return { events: await fetchedEvents(local, parseInput(match[1])) };
+    }
+    if ((match = /actions\(input: \{ (.*) \}\)/.exec(query))) {
+      return { actions: fetchedActions(local, parseInput(match[1])) };
+    }
+    throw Error(`Unsupported query:\n${query}`);
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    let body = '';
+    for await (let chunk of req) body += chunk;
+    let response: { data: any; errors?: { message: string }[] };
+    try {
+      let { query } = JSON.parse(body);
+      response = { data: await resolve(query) };
+    } catch (err: any) {
+      // like the Mina daemon, errors are returned as GraphQL errors with status 200
+      response = {
+        data: null,
+        errors: [{ message: err?.message ?? String(err) }],
+      };
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  }
+
+  let server = createServer((req, res) => {
+    handleRequest(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  let address = server.address() as AddressInfo;
+
+  return {
+    endpoint: `http://localhost:${address.port}/graphql`,
+    close() {
+      return new Promise((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      );
+    },
+  };
+}
+
+function fetchedAccount(
+  local: LocalBlockchain,
+  publicKeyBase58: string,
+  tokenIdBase58: string
+): FetchedAccount | null {
+  let publicKey = PublicKey.fromBase58(publicKeyBase58);
+  let tokenId = TokenId.fromBase58(tokenIdBase58);
+  if (!local.hasAccount(publicKey, tokenId)) return null;
+  let account = local.getAccount(publicKey, tokenId);
+  let json = Types.Account.toJSON(account);
+  let { timing, zkapp } = json;
+  return {
+    publicKey: json.publicKey,
+    token: json.tokenId,
+    nonce: json.nonce,
+    balance: { total: json.balance },
+    tokenSymbol: json.tokenSymbol,
+    receiptChainHash: Encoding.ReceiptChainHash.toBase58(
+      account.receiptChainHash
+    ),
+    timing: timing.isTimed
+      ? {
+          initialMinimumBalance: timing.initialMinimumBalance,
+          cliffTime: timing.cliffTime,
+          cliffAmount: timing.cliffAmount,
+          vestingPeriod: timing.vestingPeriod,
+          vestingIncrement: timing.vestingIncrement,
+        }
+      : {
+          initialMinimumBalance: null,
+          cliffTime: null,
+          cliffAmount: null,
+          vestingPeriod: null,
+          vestingIncrement: null,
+        },
+    permissions: json.permissions,
+    delegateAccount:
+      json.delegate === null ? null : { publicKey: json.delegate },
+    votingFor: json.votingFor,
+    zkappState: zkapp?.appState ?? null,
+    verificationKey:
+      (zkapp?.verificationKey && {
+        verificationKey: zkapp.verificationKey.data,
+        hash: zkapp.verificationKey.hash,
+      }) ??
+      null,
+    sequenceEvents: zkapp?.sequenceState ?? null,
+    provedState: zkapp?.provedState ?? null,
+    zkappUri: zkapp?.zkappUri ?? null,
+  };
+}
+
+type FailureReason = { index: string; failures: string[] }[];
+
+// block hashes are made up from the block height, because a `LocalBlockchain` doesn't keep its past blocks
+function mockStateHash(height: number) {
+  return Encoding.StateHash.toBase58(Field(height));
+}
+
+function fetchedBlock(network: NetworkValue) {
+  let epochData = ({
+    ledger,
+    seed,
+    startCheckpoint,
+    lockCheckpoint,
+    epochLength,
+  }: NetworkValue['stakingEpochData']) => ({
+    ledger: {
+      hash: Encoding.LedgerHash.toBase58(ledger.hash),
+      totalCurrency: ledger.totalCurrency.toString(),
+    },
+    seed: Encoding.EpochSeed.toBase58(seed),
+    startCheckpoint: Encoding.StateHash.toBase58(startCheckpoint),
+    lockCheckpoint: Encoding.StateHash.toBase58(lockCheckpoint),
+    epochLength: epochLength.toString(),
+  });
+  let date = String(Date.now());
+  return {
+    protocolState: {
+      blockchainState: {
+        snarkedLedgerHash: Encoding.LedgerHash.toBase58(
+          network.snarkedLedgerHash
+        ),
+        stagedLedgerHash: Encoding.LedgerHash.toBase58(
+          network.snarkedLedgerHash
+        ),
+        date,
+        utcDate: date,
+        stagedLedgerProofEmitted: false,
+      },
+      previousStateHash: Encoding.StateHash.toBase58(Field(0)),
+      consensusState: {
+        blockHeight: network.blockchainLength.toString(),
+        slotSinceGenesis: network.globalSlotSinceGenesis.toString(),
+        slot: network.globalSlotSinceGenesis.toString(),
+        nextEpochData: epochData(network.nextEpochData),
+        stakingEpochData: epochData(network.stakingEpochData),
+        epochCount: '0',
+        minWindowDensity: network.minWindowDensity.toString(),
+        totalCurrency: network.totalCurrency.toString(),
+        epoch: '0',
+      },
+    },
+  };
+}
+
+async function fetchedEvents(
+  local: LocalBlockchain,
+  input: Record<string, string>
+) {
+  let publicKey = PublicKey.fromBase58(input.address);
+  let tokenId = TokenId.fromBase58(input.tokenId);
+  let events = await local.fetchEvents(publicKey, tokenId, {
+    from: input.from === undefined ? undefined : UInt32.from(input.from),
+    to: input.to === undefined ? undefined : UInt32.from(input.to),
+  });
+  let height = local.getNetworkState().blockchainLength.toBigint();
+  return events.map((event: any) => ({
+    blockInfo: {
+      // the LocalBlockchain has no forks, so no event is reported at the best tip;
+      // otherwise, fetchEvents would drop them whenever several transactions were applied at the current height
+      distanceFromMaxBlockHeight:
+        Number(height - (event.blockHeight as UInt32).toBigint()) + 1,
+      height: Number(event.blockHeight.toBigint()),
+      globalSlotSinceGenesis: Number(event.globalSlot.toBigint()),
+      stateHash: event.blockHash,
+      parentHash: event.parentBlockHash,
+      chainStatus: 'canonical',
+    },
+    transactionInfo: {
+      hash: event.transactionHash,
+      memo: event.transactionMemo,
+      status: 'applied',
+    },
+    eventData: (event.events as string[][]).map((data, index) => ({
+      index: String(index),
+      data,
+    })),
+  }));
+}
+
+function fetchedActions(local: LocalBlockchain, input: Record<string, string>) {
+  let publicKey = PublicKey.fromBase58(input.address);
+  let tokenId = TokenId.fromBase58(input.tokenId);
+  let allActions = local.getActions(publicKey, tokenId);
+  let { fromActionState, endActionState } = input;
+  let actions = local.getActions(publicKey, tokenId, {
+    fromActionHash:
+      fromActionState === undefined
+        ? undefined
+        : Ledger.fieldOfBase58(fromActionState),
+    endActionHash:
+      endActionState === undefined
+        ? undefined
+        : Ledger.fieldOfBase58(endActionState),
+  });
+  let offset = allActions.findIndex(({ hash }) => hash === actions[0]?.hash);
+  let emptyHash = Ledger.fieldToBase58(SequenceEvents.emptySequenceState());
+  return actions.map(({ hash, actions }, i) => ({
+    // like events, actions are never reported at the best tip
+    blockInfo: { distanceFromMaxBlockHeight: 1 },
+    actionState: {
+      actionStateOne: hash,
+      actionStateTwo:
+        offset + i === 0 ? emptyHash : allActions[offset + i - 1].hash,
+    },
+    actionData: actions.map((data) => ({
+      accountUpdateId: String(offset + i),
+      data,
+    })),
+  }));
+}
+
+// parses the input object of an events or actions query, e.g. `address: "B62...", tokenId: "wSH...", from: 2`
+function parseInput(input: string) {
+  let result: Record<string, string> = {};
+  for (let [, key, value] of input.matchAll(/(\w+): "?(\w+)"?/g)) {
+    result[key] = value;
+  }
+  return result;
+}
+
+// inverse of `removeJsonQuotes()` in fetch.ts, which removes the quotes on JSON keys
+function addJsonQuotes(json: string) {
+  return json.replace(/^(\s*)([^\s"]+):/gm, '$1"$2":');
+}
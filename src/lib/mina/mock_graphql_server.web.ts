@@ -0,0 +1,20 @@
+import { LocalBlockchain } from '../mina.js';
+
+export { startMockGraphqlServer, MockGraphqlServer };
+
+type MockGraphqlServer = {
+  endpoint: string;
+  close(): Promise<void>;
+};
+
+/**
+ * Starts a GraphQL server which answers the queries sent by `Mina.Network()` with data from a `LocalBlockchain`.
+ *
+ * This is only available in Node.js; in the browser, it throws.
+ */
+async function startMockGraphqlServer(
+  local: ReturnType<typeof LocalBlockchain>,
+  options: { port?: number } = {}
+): Promise<MockGraphqlServer> {
+  throw Error('startMockGraphqlServer is not supported in the browser.');
+}
@@ -0,0 +1,165 @@
+import { Field } from '../core.js';
+import { Int64, UInt64 } from '../int.js';
+import { PublicKey } from '../signature.js';
+import { TokenId, ZkappCommand } from '../account_update.js';
+import { Account } from './account.js';
+
+export { TransactionReceipt, AccountUpdateReceipt, TransactionFailure };
+export { appliedTransactionReceipt, failedTransactionReceipt };
+
+/**
+ * The effects of a transaction, as applied by a `LocalBlockchain`.
+ */
+type TransactionReceipt = {
+  /**
+   * The hash of the transaction, which is the base58-encoded full commitment.
+   */
+  hash: string;
+  status: 'applied' | 'failed';
+  feePayer: PublicKey;
+  fee: UInt64;
+  /**
+   * The effects of every account update, in the order of `transaction.accountUpdates`. Empty if the transaction failed.
+   */
+  accountUpdates: AccountUpdateReceipt[];
+  /**
+   * The reasons why the transaction failed. Empty if it was applied.
+   */
+  errors: TransactionFailure[];
+};
+
+type AccountUpdateReceipt = {
+  /**
+   * The index of the account update in `transaction.accountUpdates`.
+   */
+  index: number;
+  label: string;
+  publicKey: PublicKey;
+  tokenId: Field;
+  /**
+   * The change of the balance, including the account creation fee if it was deducted from this account.
+   */
+  balanceChange: Int64;
+  /**
+   * Whether the account was created by this account update.
+   */
+  isNewAccount: boolean;
+  /**
+   * The app state fields which were set, with their values before and after the account update.
+   */
+  stateChanges: { index: number; before: Field; after: Field }[];
+  events: Field[][];
+  actions: Field[][];
+};
+
+/**
+ * A reason why a transaction failed, as reported by the ledger.
+ */
+type TransactionFailure = {
+  /**
+   * The failure code of the Mina ledger, e.g. `'Account_nonce_precondition_unsatisfied'`.
+   */
+  code: string;
+  /**
+   * The index of the failing account update in `transaction.accountUpdates`, or `undefined` for the fee payer.
+   */
+  accountUpdateIndex?: number;
+  publicKey: PublicKey;
+  tokenId: Field;
+};
+
+/**
+ * Computes the receipt of a transaction, before it is applied.
+ *
+ * @param getAccount Returns an account of the ledger on which the transaction will be applied, or `undefined` if it doesn't exist.
+ */
+function appliedTransactionReceipt(
+  transaction: ZkappCommand,
+  hash: string,
+  getAccount: (publicKey: PublicKey, tokenId: Field) => Account | undefined,
+  accountCreationFee: UInt64
+): TransactionReceipt {
+  // app states as they are changed by the transaction, by account
+  let appStates = new Map<string, Field[] | undefined>();
+
+  let accountUpdates = transaction.accountUpdates.map(
+    ({ body, label }, index): AccountUpdateReceipt => {
+      let key = `${body.publicKey.toBase58()};${body.tokenId}`;
+      let isNewAccount = false;
+      if (!appStates.has(key)) {
+        let account = getAccount(body.publicKey, body.tokenId);
+        isNewAccount = account === undefined;
+        appStates.set(key, account?.zkapp?.appState.slice());
+      }
+      let appState = appStates.get(key);
+
+      let balanceChange = Int64.fromObject(body.balanceChange);
+      if (isNewAccount && body.implicitAccountCreationFee.toBoolean()) {
+        balanceChange = balanceChange.sub(accountCreationFee);
+      }
+
+      let stateChanges: AccountUpdateReceipt['stateChanges'] = [];
+      body.update.appState.forEach(({ isSome, value }, i) => {
+        if (!isSome.toBoolean()) return;
+        // accounts which aren't zkApps yet have an app state of zeros
+        appState ??= body.update.appState.map(() => Field(0));
+        stateChanges.push({ index: i, before: appState[i], after: value });
+        appState[i] = value;
+      });
+      appStates.set(key, appState);
+
+      return {
+        index,
+        label,
+        publicKey: body.publicKey,
+        tokenId: body.tokenId,
+        balanceChange,
+        isNewAccount,
+        stateChanges,
+        events: body.events.data,
+        actions: body.actions.data,
+      };
+    }
+  );
+
+  return {
+    hash,
+    status: 'applied',
+    feePayer: transaction.feePayer.body.publicKey,
+    fee: transaction.feePayer.body.fee,
+    accountUpdates,
+    errors: [],
+  };
+}
+
+/**
+ * Creates the receipt of a transaction which failed.
+ *
+ * @param errors The errors thrown by the ledger, one list for the fee payer followed by one list per account update.
+ */
+function failedTransactionReceipt(
+  transaction: ZkappCommand,
+  hash: string,
+  errors: string[][][]
+): TransactionReceipt {
+  let { feePayer, accountUpdates } = transaction;
+  let failures: TransactionFailure[] = [];
+  errors.forEach((errorsForUpdate, i) => {
+    let accountUpdateIndex = i === 0 ? undefined : i - 1;
+    let { publicKey, tokenId } =
+      accountUpdateIndex === undefined
+        ? { publicKey: feePayer.body.publicKey, tokenId: TokenId.default }
+        : accountUpdates[accountUpdateIndex].body;
+    for (let [code] of errorsForUpdate) {
+      failures.push({ code, accountUpdateIndex, publicKey, tokenId });
+    }
+  });
+  return {
+    hash,
+    status: 'failed',
+    feePayer: feePayer.body.publicKey,
+    fee: feePayer.body.fee,
+    accountUpdates: [],
+    errors: failures,
+  };
+}
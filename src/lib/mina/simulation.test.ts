@@ -0,0 +1,142 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  SmartContract,
+  AccountUpdate,
+  State,
+  state,
+  method,
+  UInt32,
+  Bool,
+  startMockGraphqlServer,
+  MockGraphqlServer,
+} from 'snarkyjs';
+
+class Counter extends SmartContract {
+  @state(Field) x = State<Field>();
+
+  @method set(y: Field) {
+    this.x.set(y);
+  }
+}
+
+describe('Transaction.simulate()', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let server: MockGraphqlServer;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let zkappAddress: PublicKey;
+  let zkapp: Counter;
+
+  beforeAll(async () => {
+    await isReady;
+    Local = Mina.LocalBlockchain({ proofsEnabled: false });
+    Mina.setActiveInstance(Local);
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    let zkappKey = PrivateKey.random();
+    zkappAddress = zkappKey.toPublicKey();
+    zkapp = new Counter(zkappAddress);
+
+    let tx = await Mina.transaction(feePayer, () => {
+      AccountUpdate.fundNewAccount(feePayer);
+      zkapp.deploy();
+    });
+    await tx.sign([feePayerKey, zkappKey]).send();
+    tx = await Mina.transaction(feePayer, () => zkapp.set(Field(1)));
+    await tx.prove();
+    await tx.sign([feePayerKey]).send();
+
+    server = await startMockGraphqlServer(Local);
+  });
+  afterAll(async () => {
+    await server.close();
+    setTimeout(shutdown, 0);
+  });
+
+  // runs the same tests against the LocalBlockchain, and against a Mina.Network which fetches from it
+  describe.each([
+    ['LocalBlockchain', () => Local],
+    [
+      'Mina.Network',
+      () => Mina.Network({ mina: server.endpoint, archive: server.endpoint }),
+    ],
+  ])('on %s', (_, instance) => {
+    beforeAll(() => {
+      Mina.setActiveInstance(instance());
+    });
+
+    it('simulates a transaction before it is proved and signed, without applying it', async () => {
+      let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () =>
+        zkapp.set(Field(2))
+      );
+      let receipt = await tx.simulate();
+
+      expect(receipt.status).toEqual('applied');
+      expect(receipt.accountUpdates[0].stateChanges).toEqual([
+        { index: 0, before: Field(1), after: Field(2) },
+      ]);
+      expect(Local.getAccount(zkappAddress).zkapp?.appState[0]).toEqual(
+        Field(1)
+      );
+    });
+
+    it('reports unsatisfied preconditions', async () => {
+      let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () => {
+        let update = AccountUpdate.create(zkappAddress);
+        update.account.nonce.assertEquals(UInt32.from(100));
+      });
+      let receipt = await tx.simulate();
+
+      expect(receipt.status).toEqual('failed');
+      expect(receipt.errors).toContainEqual({
+        code: 'Account_nonce_precondition_unsatisfied',
+        accountUpdateIndex: 0,
+        publicKey: zkappAddress,
+        tokenId: Field(1),
+      });
+    });
+
+    it('checks nonce preconditions against the current nonce', async () => {
+      let nonce = Local.getAccount(feePayer).nonce;
+      let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () => {
+        // the fee payer increments the nonce before the account update is applied
+        let update = AccountUpdate.createSigned(feePayer);
+        update.account.nonce.assertEquals(nonce.add(1));
+      });
+      let receipt = await tx.simulate();
+
+      expect(receipt.status).toEqual('applied');
+    });
+
+    it('reports missing permissions', async () => {
+      let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () => {
+        // editing the state of the zkApp requires a proof
+        let update = AccountUpdate.createSigned(zkappAddress);
+        update.update.appState[0] = { isSome: Bool(true), value: Field(3) };
+      });
+      let receipt = await tx.simulate();
+
+      expect(receipt.status).toEqual('failed');
+      expect(receipt.errors.map(({ code }) => code)).toContain(
+        'Update_not_permitted_app_state'
+      );
+    });
+
+    it('reports a wrong fee excess', async () => {
+      let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, () => {
+        AccountUpdate.createSigned(feePayer).balance.subInPlace(1e9);
+      });
+      let receipt = await tx.simulate();
+
+      expect(receipt.status).toEqual('failed');
+      expect(receipt.errors.map(({ code }) => code)).toContain(
+        'Invalid_fee_excess'
+      );
+    });
+  });
+});
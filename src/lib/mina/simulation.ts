@@ -0,0 +1,368 @@
+import { Bool, Ledger, Pickles } from '../../snarky.js';
+import { Field } from '../core.js';
+import { UInt32, UInt64 } from '../int.js';
+import { PrivateKey, PublicKey } from '../signature.js';
+import {
+  AccountUpdate,
+  Authorization,
+  Token,
+  TokenId,
+  ZkappCommand,
+} from '../account_update.js';
+import { Poseidon, TokenSymbol } from '../hash.js';
+import { ZkappUri } from '../../provable/transaction-leaves.js';
+import { NetworkValue } from '../precondition.js';
+import { Account } from './account.js';
+import {
+  TransactionReceipt,
+  TransactionFailure,
+  appliedTransactionReceipt,
+  failedTransactionReceipt,
+} from './receipt.js';
+
+export { simulateOnLedger, replicateAccounts, touchedAccounts };
+// for internal use only
+export { dummySignedUpdate, setupFeePayer };
+
+type SimulationContext = {
+  networkState: NetworkValue;
+  accountCreationFee: UInt64;
+};
+
+/**
+ * Applies a transaction to a ledger which nobody else uses, and returns its receipt.
+ *
+ * Signatures and proofs are not checked; missing ones are replaced by dummies, so that the transaction can be simulated before
+ * it is signed and proved. Permissions are still checked against the kind of authorization of every account update.
+ *
+ * @param replicatedAccounts If the ledger was created with {@link replicateAccounts}, the original accounts, to check the preconditions
+ * which refer to account fields that couldn't be copied.
+ */
+function simulateOnLedger(
+  ledger: Ledger,
+  transaction: ZkappCommand,
+  {
+    networkState,
+    accountCreationFee,
+    replicatedAccounts,
+  }: SimulationContext & { replicatedAccounts?: Account[] }
+): TransactionReceipt {
+  let json = JSON.stringify(ZkappCommand.toJSON(transaction));
+  let hash = Ledger.fieldToBase58(
+    Ledger.transactionCommitments(json).fullCommitment
+  );
+  let simulated = withDummyAuthorizations(transaction);
+  let failures =
+    replicatedAccounts === undefined
+      ? []
+      : [
+          ...removeUnreplicatedPreconditions(simulated, replicatedAccounts),
+          ...shiftNonces(simulated, replicatedAccounts),
+        ];
+  let receipt = appliedTransactionReceipt(
+    transaction,
+    hash,
+    (publicKey, tokenId) => {
+      let accountJson = ledger.getAccount(publicKey, tokenId);
+      return accountJson && Account.fromJSON(accountJson);
+    },
+    accountCreationFee
+  );
+
+  try {
+    ledger.applyJsonTransaction(
+      JSON.stringify(ZkappCommand.toJSON(simulated)),
+      accountCreationFee.toString(),
+      JSON.stringify(networkState)
+    );
+  } catch (err: any) {
+    let errors: string[][][];
+    try {
+      errors = JSON.parse(err.message);
+    } catch {
+      // errors which are not reported per account update, like a wrong fee payer nonce, prevent the whole transaction
+      errors = [[[err.message]]];
+    }
+    let failed = failedTransactionReceipt(transaction, hash, errors);
+    return { ...failed, errors: [...failed.errors, ...failures] };
+  }
+  if (failures.length > 0) {
+    return {
+      ...failedTransactionReceipt(transaction, hash, []),
+      errors: failures,
+    };
+  }
+  return receipt;
+}
+
+/**
+ * Creates a ledger with copies of the given accounts, for example as fetched from a Mina node.
+ *
+ * The ledger only supports adding accounts with a balance, so all other account fields are set by a transaction,
+ * which is paid for by an extra account. The nonce, receipt chain hash, action state and proved state can't be set this way,
+ * so {@link simulateOnLedger} has to be called with the original accounts.
+ *
+ * @param tokenOwners Candidates for the owners of token accounts; every token account needs its owner among them.
+ */
+function replicateAccounts(
+  accounts: Account[],
+  tokenOwners: PublicKey[],
+  { networkState, accountCreationFee }: SimulationContext
+): Ledger {
+  let ledger = Ledger.create([]);
+  let isDefaultToken = (account: Account) =>
+    account.tokenId.equals(TokenId.default).toBoolean();
+  let tokenAccounts = accounts.filter((a) => !isDefaultToken(a));
+  let mainAccounts = accounts.filter(isDefaultToken);
+
+  let feePayer = setupFeePayer();
+  let creationFees = accountCreationFee.mul(tokenAccounts.length);
+  ledger.addAccount(feePayer, creationFees.toString());
+  for (let account of mainAccounts) {
+    ledger.addAccount(account.publicKey, account.balance.toString());
+  }
+
+  // token account updates have to be children of an account update of their token owner
+  function withTokenOwner(account: Account, accountUpdates: AccountUpdate[]) {
+    if (isDefaultToken(account)) return accountUpdates;
+    let owner = tokenOwners.find((publicKey) =>
+      Token.getId(publicKey).equals(account.tokenId).toBoolean()
+    );
+    if (owner === undefined) {
+      throw Error(
+        `Can't copy the token account ${account.publicKey.toBase58()} with token id ${TokenId.toBase58(
+          account.tokenId
+        )}, because its token owner is not known.`
+      );
+    }
+    accountUpdates.forEach((accountUpdate) => {
+      accountUpdate.body.callDepth = 1;
+    });
+    return [dummySignedUpdate(owner), ...accountUpdates];
+  }
+
+  let funder = dummySignedUpdate(feePayer);
+  funder.balance.subInPlace(creationFees);
+  // permissions are set last, because they might forbid setting the other fields with a signature.
+  // token accounts are done first, so that their token owner still accepts signatures
+  let accountUpdates = [
+    funder,
+    ...accounts.flatMap((account) =>
+      withTokenOwner(account, [copyAccountFields(account)])
+    ),
+    ...[...tokenAccounts, ...mainAccounts].flatMap((account) =>
+      withTokenOwner(account, [copyPermissions(account)])
+    ),
+  ];
+  let transaction: ZkappCommand = {
+    feePayer: AccountUpdate.defaultFeePayer(feePayer, UInt32.zero),
+    accountUpdates,
+    memo: '',
+  };
+  try {
+    ledger.applyJsonTransaction(
+      JSON.stringify(ZkappCommand.toJSON(transaction)),
+      accountCreationFee.toString(),
+      JSON.stringify(networkState)
+    );
+  } catch (err: any) {
+    throw Error(`Failed to copy the accounts: ${err.message}`);
+  }
+  return ledger;
+}
+
+/**
+ * Returns the accounts which are touched by a transaction, without duplicates, starting with the fee payer.
+ */
+function touchedAccounts({ feePayer, accountUpdates }: ZkappCommand) {
+  let touched = [
+    { publicKey: feePayer.body.publicKey, tokenId: TokenId.default },
+    ...accountUpdates.map(({ body: { publicKey, tokenId } }) => ({
+      publicKey,
+      tokenId,
+    })),
+  ];
+  return touched.filter(
+    ({ publicKey, tokenId }, i) =>
+      touched.findIndex(
+        (other) =>
+          other.publicKey.equals(publicKey).toBoolean() &&
+          other.tokenId.equals(tokenId).toBoolean()
+      ) === i
+  );
+}
+
+// an account update which sets all fields of an account except the permissions and the nonce
+function copyAccountFields(account: Account): AccountUpdate {
+  let { publicKey, tokenId, zkapp, timing } = account;
+  let accountUpdate = dummySignedUpdate(publicKey, tokenId);
+  let { update } = accountUpdate;
+  if (!tokenId.equals(TokenId.default).toBoolean()) {
+    // token accounts don't exist yet, and receive their balance from the token owner
+    accountUpdate.balance.addInPlace(account.balance);
+  } else if (account.delegate !== undefined) {
+    AccountUpdate.setValue(update.delegate, account.delegate);
+  }
+  if (zkapp !== undefined) {
+    zkapp.appState.forEach((x, i) => {
+      AccountUpdate.setValue(update.appState[i], x);
+    });
+    if (zkapp.verificationKey !== undefined) {
+      AccountUpdate.setValue(update.verificationKey, zkapp.verificationKey);
+    }
+    AccountUpdate.setValue(update.zkappUri, ZkappUri.fromJSON(zkapp.zkappUri));
+  }
+  AccountUpdate.setValue(
+    update.tokenSymbol,
+    TokenSymbol.from(account.tokenSymbol)
+  );
+  AccountUpdate.setValue(update.votingFor, account.votingFor);
+  if (timing.isTimed.toBoolean()) {
+    let { isTimed, ...value } = timing;
+    AccountUpdate.setValue(update.timing, value);
+  }
+  return accountUpdate;
+}
+
+function copyPermissions({ publicKey, tokenId, permissions }: Account) {
+  let accountUpdate = dummySignedUpdate(publicKey, tokenId);
+  AccountUpdate.setValue(accountUpdate.update.permissions, permissions);
+  return accountUpdate;
+}
+
+// the action state, proved state and receipt chain hash can't be copied with `replicateAccounts()`,
+// so preconditions on them are checked here, and removed from the transaction
+function removeUnreplicatedPreconditions(
+  transaction: ZkappCommand,
+  accounts: Account[]
+): TransactionFailure[] {
+  let failures: TransactionFailure[] = [];
+  transaction.accountUpdates.forEach(({ body }, accountUpdateIndex) => {
+    let { publicKey, tokenId } = body;
+    let account = findAccount(accounts, publicKey, tokenId);
+    let { sequenceState, provedState, receiptChainHash } =
+      body.preconditions.account;
+    let check = (
+      precondition: { isSome: Bool },
+      isSatisfied: boolean,
+      code: string
+    ) => {
+      if (!precondition.isSome.toBoolean()) return;
+      if (!isSatisfied) {
+        failures.push({ code, accountUpdateIndex, publicKey, tokenId });
+      }
+      precondition.isSome = Bool(false);
+    };
+    check(
+      sequenceState,
+      account?.zkapp?.sequenceState.some((state) =>
+        state.equals(sequenceState.value).toBoolean()
+      ) ?? false,
+      'Account_sequence_state_precondition_unsatisfied'
+    );
+    check(
+      provedState,
+      (account?.zkapp?.provedState ?? Bool(false))
+        .equals(provedState.value)
+        .toBoolean(),
+      'Account_proved_state_precondition_unsatisfied'
+    );
+    check(
+      receiptChainHash,
+      account?.receiptChainHash.equals(receiptChainHash.value).toBoolean() ??
+        false,
+      'Account_receipt_chain_hash_precondition_unsatisfied'
+    );
+  });
+  return failures;
+}
+
+// the accounts copied with `replicateAccounts()` start with nonce 0, so the nonces in the transaction are shifted
+// by the nonce of the original account. nonce preconditions which can't hold are checked here, and removed
+function shiftNonces(
+  transaction: ZkappCommand,
+  accounts: Account[]
+): TransactionFailure[] {
+  let nonceOf = (publicKey: PublicKey, tokenId: Field) =>
+    findAccount(accounts, publicKey, tokenId)?.nonce.toBigint() ?? 0n;
+
+  // a wrong fee payer nonce is reported by the ledger, so the nonce only has to stay wrong
+  let { body } = transaction.feePayer;
+  let feePayerNonce = nonceOf(body.publicKey, TokenId.default);
+  let nonce = body.nonce.toBigint() === feePayerNonce ? 0n : 1n;
+  transaction.feePayer = {
+    ...transaction.feePayer,
+    body: { ...body, nonce: UInt32.from(nonce) },
+  };
+
+  let failures: TransactionFailure[] = [];
+  transaction.accountUpdates.forEach(({ body }, accountUpdateIndex) => {
+    let { publicKey, tokenId } = body;
+    let precondition = body.preconditions.account.nonce;
+    let shift = nonceOf(publicKey, tokenId);
+    if (!precondition.isSome.toBoolean() || shift === 0n) return;
+    let lower = precondition.value.lower.toBigint();
+    let upper = precondition.value.upper.toBigint();
+    // nonces only increase, so an upper bound below the original nonce can't be satisfied
+    if (upper < shift) {
+      failures.push({
+        code: 'Account_nonce_precondition_unsatisfied',
+        accountUpdateIndex,
+        publicKey,
+        tokenId,
+      });
+      precondition.isSome = Bool(false);
+      return;
+    }
+    precondition.value = {
+      lower: UInt32.from(lower > shift ? lower - shift : 0n),
+      upper: UInt32.from(upper - shift),
+    };
+  });
+  return failures;
+}
+
+function findAccount(
+  accounts: Account[],
+  publicKey: PublicKey,
+  tokenId: Field
+) {
+  return accounts.find(
+    (a) =>
+      a.publicKey.equals(publicKey).toBoolean() &&
+      a.tokenId.equals(tokenId).toBoolean()
+  );
+}
+
+function withDummyAuthorizations({
+  feePayer,
+  accountUpdates,
+  memo,
+}: ZkappCommand): ZkappCommand {
+  accountUpdates = accountUpdates.map((accountUpdate) => {
+    accountUpdate = AccountUpdate.clone(accountUpdate);
+    let kind = accountUpdate.lazyAuthorization?.kind;
+    if (kind === 'lazy-signature') {
+      Authorization.setSignature(accountUpdate, Ledger.dummySignature());
+    } else if (kind === 'lazy-proof') {
+      Authorization.setProof(accountUpdate, Pickles.dummyBase64Proof());
+    }
+    return accountUpdate;
+  });
+  return { feePayer, accountUpdates, memo };
+}
+
+// an account update with a dummy signature, which are accepted because the ledger doesn't check signatures
+function dummySignedUpdate(publicKey: PublicKey, tokenId?: Field) {
+  let accountUpdate = AccountUpdate.defaultAccountUpdate(publicKey, tokenId);
+  accountUpdate.body.useFullCommitment = Bool(true);
+  Authorization.setLazySignature(accountUpdate);
+  Authorization.setSignature(accountUpdate, Ledger.dummySignature());
+  return accountUpdate;
+}
+
+// the account which pays for copying accounts; nobody knows its private key
+function setupFeePayer() {
+  let bits = Poseidon.hash([Field(-1), Field(1)]).toBits();
+  return PrivateKey.fromBits(bits).toPublicKey();
+}
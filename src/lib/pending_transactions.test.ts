@@ -0,0 +1,134 @@
+import {
+  isReady,
+  shutdown,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  AccountUpdate,
+  UInt32,
+  UInt64,
+  startMockGraphqlServer,
+  MockGraphqlServer,
+} from 'snarkyjs';
+
+describe('nonces of pending transactions', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let server: MockGraphqlServer;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let receiver: PublicKey;
+
+  async function payment(nonce?: number) {
+    let tx = await Mina.transaction(
+      { sender: feePayer, fee: 1e8, nonce },
+      () => {
+        AccountUpdate.createSigned(feePayer).send({
+          to: receiver,
+          amount: UInt64.from(1e9),
+        });
+      }
+    );
+    return tx.sign([feePayerKey]);
+  }
+
+  beforeAll(async () => {
+    await isReady;
+  });
+  // every test uses a new mock node, where sent transactions wait in the mempool until a block is produced
+  beforeEach(async () => {
+    Local = Mina.LocalBlockchain({
+      proofsEnabled: false,
+      blockProduction: 'manual',
+    });
+    server = await startMockGraphqlServer(Local);
+    Mina.setActiveInstance(
+      Mina.Network({ mina: server.endpoint, archive: server.endpoint })
+    );
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    receiver = Local.testAccounts[1].publicKey;
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+  afterAll(() => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('assigns increasing nonces to transactions of the same fee payer', async () => {
+    let first = await payment();
+    let firstId = await first.send();
+    let second = await payment();
+    let secondId = await second.send();
+    expect(first.transaction.feePayer.body.nonce).toEqual(UInt32.from(0));
+    expect(second.transaction.feePayer.body.nonce).toEqual(UInt32.from(1));
+
+    Local.produceBlock();
+    await firstId.wait({ interval: 10, maxAttempts: 3 });
+    await secondId.wait({ interval: 10, maxAttempts: 3 });
+    expect(Local.getAccount(feePayer).nonce).toEqual(UInt32.from(2));
+
+    // included transactions are no longer pending, so the account nonce is used again
+    let third = await payment();
+    expect(third.transaction.feePayer.body.nonce).toEqual(UInt32.from(2));
+  });
+
+  it('invalidates pending transactions after a transaction fails, and reuses its nonce', async () => {
+    await (await payment()).send();
+    let later = await (await payment(2)).send();
+
+    // top-level account updates which use a token are rejected
+    let failing = await Mina.transaction(
+      { sender: feePayer, fee: 1e8, nonce: 1 },
+      () => {
+        let update = AccountUpdate.createSigned(feePayer);
+        update.body.mayUseToken = AccountUpdate.MayUseToken.ParentsOwnToken;
+      }
+    );
+    let failingId = await failing.sign([feePayerKey]).send();
+    expect(failingId.isSuccess).toEqual(false);
+
+    await expect(later.wait({ interval: 10, maxAttempts: 3 })).rejects.toThrow(
+      /because the transaction with nonce 1/
+    );
+    let next = await payment();
+    expect(next.transaction.feePayer.body.nonce).toEqual(UInt32.from(1));
+  });
+
+  it('replaces a pending transaction with one that pays a higher fee', async () => {
+    let balanceBefore = Local.getAccount(receiver).balance;
+    let txId = await (await payment()).send();
+    await expect(
+      txId.replace({ fee: 1e8, keys: [feePayerKey] })
+    ).rejects.toThrow(/has to be higher/);
+
+    // the fee payer key which signed the original transaction is reused
+    let replacementId = await txId.replace({ fee: 2e8 });
+    expect(replacementId.isSuccess).toEqual(true);
+    let [pending] = Local.pendingTransactions();
+    expect(pending.feePayer.body.fee).toEqual(UInt64.from(2e8));
+    await expect(txId.wait({ interval: 10, maxAttempts: 3 })).rejects.toThrow(
+      /replaced/
+    );
+
+    Local.produceBlock();
+    await replacementId.wait({ interval: 10, maxAttempts: 3 });
+    expect(Local.getAccount(receiver).balance).toEqual(
+      balanceBefore.add(UInt64.from(1e9))
+    );
+  });
+
+  it('cancels a pending transaction', async () => {
+    let balanceBefore = Local.getAccount(receiver).balance;
+    let txId = await (await payment()).send();
+    let cancelId = await txId.cancel();
+    let [pending] = Local.pendingTransactions();
+    expect(pending.accountUpdates).toEqual([]);
+    expect(pending.feePayer.body.fee).toEqual(UInt64.from(1.1e8 + 1));
+
+    Local.produceBlock();
+    await cancelId.wait({ interval: 10, maxAttempts: 3 });
+    expect(Local.getAccount(feePayer).nonce).toEqual(UInt32.from(1));
+    expect(Local.getAccount(receiver).balance).toEqual(balanceBefore);
+  });
+});
@@ -0,0 +1,179 @@
+import { Field } from './core.js';
+import {
+  Binable,
+  BinableString,
+  BinableUint32,
+  defineBinable,
+  record,
+} from '../provable/binable.js';
+
+export { EncodedProof, proofFormatVersion, encodeProof, decodeProof };
+
+// internal API
+export { bytesToBase64, base64ToBytes, checkProofFormatVersion };
+
+/**
+ * Version of the proof encoding produced by `Proof.toBytes()` and `Proof.toJSON()`.
+ * Has to be increased whenever the layout of {@link EncodedProof} changes.
+ */
+const proofFormatVersion = 1;
+
+/**
+ * Everything that is needed to restore a proof, and to check that it is loaded against the right program:
+ * - `name` and `program` identify the program which created the proof; `program` is its digest, or '' if unknown
+ * - `publicInput` and `publicOutput` are the field elements of the statement
+ * - `proof` is the Pickles proof, encoded as base64 by `Pickles.proofToBase64`
+ */
+type EncodedProof = {
+  name: string;
+  program: string;
+  maxProofsVerified: 0 | 1 | 2;
+  publicInput: Field[];
+  publicOutput: Field[];
+  proof: string;
+};
+
+function checkProofFormatVersion(version: number | undefined, method: string) {
+  // proofs without version were created before versioning was introduced, their format is compatible with version 1
+  if (version === undefined || version === proofFormatVersion) return;
+  throw Error(
+    `${method}: Unsupported proof format version ${version}. ` +
+      `This version of snarkyjs can only read proofs of version ${proofFormatVersion}.`
+  );
+}
+
+function encodeProof(proof: EncodedProof): Uint8Array {
+  return Uint8Array.from([
+    proofFormatVersion,
+    ...BinableEncodedProof.toBytes(proof),
+  ]);
+}
+
+function decodeProof(bytes: Uint8Array | number[]): EncodedProof {
+  if (bytes.length === 0) throw Error('Proof.fromBytes(): Empty input.');
+  let [version, ...rest] = bytes;
+  checkProofFormatVersion(version, 'Proof.fromBytes()');
+  try {
+    return BinableEncodedProof.fromBytes(rest);
+  } catch (err: any) {
+    throw Error(`Proof.fromBytes(): Invalid proof encoding. ${err.message}`);
+  }
+}
+
+// binable building blocks
+
+function BinableArray<T>(binable: Binable<T>) {
+  return defineBinable({
+    toBytes(ts: T[]) {
+      let bytes = BinableUint32.toBytes(BigInt(ts.length));
+      for (let t of ts) bytes.push(...binable.toBytes(t));
+      return bytes;
+    },
+    readBytes(bytes, offset) {
+      let [length, end] = BinableUint32.readBytes(bytes, offset);
+      offset = end as any;
+      let ts: T[] = [];
+      for (let i = 0; i < Number(length); i++) {
+        let [t, next] = binable.readBytes(bytes, offset);
+        ts.push(t);
+        offset = next as any;
+      }
+      return [ts, offset];
+    },
+  });
+}
+
+const BinableBytes = defineBinable({
+  toBytes(t: number[]) {
+    return [...BinableUint32.toBytes(BigInt(t.length)), ...t];
+  },
+  readBytes(bytes, offset) {
+    let [length, start] = BinableUint32.readBytes(bytes, offset);
+    let end = start + Number(length);
+    if (end > bytes.length) throw Error('readBytes: unexpected end of input');
+    return [bytes.slice(start, end), end];
+  },
+});
+
+const BinableMaxProofsVerified = defineBinable({
+  toBytes(n: 0 | 1 | 2) {
+    return [n];
+  },
+  readBytes(bytes, offset) {
+    let n = bytes[offset];
+    if (n !== 0 && n !== 1 && n !== 2)
+      throw Error(`readBytes: invalid maxProofsVerified ${n}`);
+    return [n as 0 | 1 | 2, offset + 1];
+  },
+});
+
+const BinableFieldArray = BinableArray<Field>(Field);
+
+// the Pickles proof is stored as raw bytes instead of base64, which makes the encoding a quarter smaller
+const BinablePicklesProof = defineBinable({
+  toBytes(proof: string) {
+    return BinableBytes.toBytes(base64ToBytes(proof));
+  },
+  readBytes(bytes, offset) {
+    let [proofBytes, end] = BinableBytes.readBytes(bytes, offset);
+    return [bytesToBase64(proofBytes), end];
+  },
+});
+
+const BinableEncodedProof = record<EncodedProof>(
+  {
+    name: BinableString,
+    program: BinableString,
+    maxProofsVerified: BinableMaxProofsVerified,
+    publicInput: BinableFieldArray,
+    publicOutput: BinableFieldArray,
+    proof: BinablePicklesProof,
+  },
+  [
+    'name',
+    'program',
+    'maxProofsVerified',
+    'publicInput',
+    'publicOutput',
+    'proof',
+  ]
+);
+
+// base64, with padding, as used by `Pickles.proofToBase64`
+
+const base64Alphabet =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const base64Index = Object.fromEntries(
+  [...base64Alphabet].map((char, i) => [char, i])
+);
+
+function bytesToBase64(bytes: Uint8Array | number[]): string {
+  let string = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    let [b0, b1 = 0, b2 = 0] = [bytes[i], bytes[i + 1], bytes[i + 2]];
+    let chunk = (b0 << 16) | (b1 << 8) | b2;
+    string += base64Alphabet[(chunk >> 18) & 63];
+    string += base64Alphabet[(chunk >> 12) & 63];
+    string += i + 1 < bytes.length ? base64Alphabet[(chunk >> 6) & 63] : '=';
+    string += i + 2 < bytes.length ? base64Alphabet[chunk & 63] : '=';
+  }
+  return string;
+}
+
+function base64ToBytes(string: string): number[] {
+  let chars = string.replace(/=+$/, '');
+  let bytes: number[] = [];
+  let buffer = 0;
+  let nBits = 0;
+  for (let char of chars) {
+    let value = base64Index[char];
+    if (value === undefined) throw Error(`Invalid base64 character "${char}"`);
+    buffer = (buffer << 6) | value;
+    nBits += 6;
+    if (nBits >= 8) {
+      nBits -= 8;
+      bytes.push((buffer >> nBits) & 0xff);
+    }
+  }
+  return bytes;
+}
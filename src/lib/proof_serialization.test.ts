@@ -0,0 +1,96 @@
+import { isReady, shutdown, Field, Experimental, verify } from 'snarkyjs';
+
+let Square = Experimental.ZkProgram({
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    run: {
+      privateInputs: [],
+      method(x: Field) {
+        return x.mul(x);
+      },
+    },
+  },
+});
+let Increment = Experimental.ZkProgram({
+  publicInput: Field,
+  methods: {
+    run: {
+      privateInputs: [],
+      method(x: Field) {
+        x.add(1).assertGreaterThan(x);
+      },
+    },
+  },
+});
+
+describe('proof serialization', () => {
+  let SquareProof = Experimental.ZkProgram.Proof(Square);
+  let IncrementProof = Experimental.ZkProgram.Proof(Increment);
+  let verificationKey: string;
+
+  beforeAll(async () => {
+    await isReady;
+    ({ verificationKey } = await Square.compile());
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('encodes a proof as bytes and base64, and decodes it again', async () => {
+    let proof = await Square.run(Field(3));
+
+    let bytes = proof.toBytes();
+    expect(bytes[0]).toEqual(1);
+    // the binary encoding stores the pickles proof as raw bytes
+    expect(bytes.length).toBeLessThan(JSON.stringify(proof.toJSON()).length);
+    let decoded = SquareProof.fromBytes(bytes);
+    expect(decoded.publicInput).toEqual(Field(3));
+    expect(decoded.publicOutput).toEqual(Field(9));
+    expect(decoded.toBytes()).toEqual(bytes);
+    expect(await Square.verify(decoded)).toEqual(true);
+    expect(await verify(bytes, verificationKey)).toEqual(true);
+
+    let base64 = proof.toBase64();
+    expect(SquareProof.fromBase64(base64).toBase64()).toEqual(base64);
+  });
+
+  it('includes the version and program digest in the JSON proof', async () => {
+    let proof = await Square.run(Field(2));
+    let json = proof.toJSON();
+    expect(json.version).toEqual(1);
+    expect(json.program).toEqual(Square.digest());
+    expect(SquareProof.fromJSON(json).publicOutput).toEqual(Field(4));
+
+    // proofs from before versioning are still accepted
+    let { version, program, ...legacyJson } = json;
+    expect(SquareProof.fromJSON(legacyJson).publicOutput).toEqual(Field(4));
+
+    expect(() => SquareProof.fromJSON({ ...json, version: 2 })).toThrow(
+      /Unsupported proof format version 2/
+    );
+    expect(() => SquareProof.fromJSON({ ...json, publicInput: [] })).toThrow(
+      /Expected a public input of 1 field elements, but the proof has 0/
+    );
+  });
+
+  it('rejects proofs of a different program', async () => {
+    let proof = await Square.run(Field(2));
+    expect(() => IncrementProof.fromBytes(proof.toBytes())).toThrow(
+      /created by a different program/
+    );
+    expect(() => IncrementProof.fromJSON(proof.toJSON())).toThrow(
+      /created by a different program/
+    );
+  });
+
+  it('rejects unsupported versions and malformed input', async () => {
+    let bytes = (await Square.run(Field(2))).toBytes();
+    expect(() => SquareProof.fromBytes([2, ...bytes.slice(1)])).toThrow(
+      /Unsupported proof format version 2/
+    );
+    expect(() => SquareProof.fromBytes(bytes.slice(0, 20))).toThrow(
+      /Invalid proof encoding/
+    );
+  });
+});
@@ -12,12 +12,32 @@ import {
   FlexibleProvablePure,
   InferProvable,
   provable,
+  provablePure,
   toConstant,
 } from './circuit_value.js';
 import { Context } from './global-context.js';
+import {
+  checkProofFormatVersion,
+  decodeProof,
+  EncodedProof,
+  encodeProof,
+  proofFormatVersion,
+  bytesToBase64,
+  base64ToBytes,
+} from './proof_encoding.js';
+import { getProverPool } from './prover_pool.js';
 
 // public API
-export { Proof, SelfProof, ZkProgram, verify };
+export {
+  Proof,
+  SelfProof,
+  ZkProgram,
+  verify,
+  VerificationKeyCache,
+  CachedVerificationKey,
+  MemoryVerificationKeyCache,
+  verificationKeyCacheKey,
+};
 
 // internal API
 export {
@@ -28,6 +48,7 @@ export {
   GenericArgument,
   picklesRuleFromFunction,
   compileProgram,
+  compileProgramWithVerificationKeyCache,
   analyzeMethod,
   emptyValue,
   emptyWitness,
@@ -35,6 +56,7 @@ export {
   methodArgumentsToConstant,
   methodArgumentTypesAndValues,
   isAsFields,
+  Undefined,
   snarkContext,
   Prover,
   inProver,
@@ -42,6 +64,9 @@ export {
   inAnalyze,
   inCheckedComputation,
   inCompileMode,
+  JsonProof,
+  programDigest,
+  getProgramMethods,
 };
 
 // global circuit-related context
@@ -57,15 +82,24 @@ type SnarkContext = {
 };
 let snarkContext = Context.create<SnarkContext>({ default: {} });
 
-class Proof<T> {
+// the public output of proofs which don't have one
+const Undefined = provablePure(undefined);
+
+class Proof<Input, Output = undefined> {
   static publicInputType: FlexibleProvablePure<any> = undefined as any;
+  static publicOutputType: FlexibleProvablePure<any> = Undefined;
   static tag: () => { name: string } = () => {
     throw Error(
       `You cannot use the \`Proof\` class directly. Instead, define a subclass:\n` +
         `class MyProof extends Proof<PublicInput> { ... }`
     );
   };
-  publicInput: T;
+  publicInput: Input;
+  /**
+   * The value returned by the method which created the proof. Like the public input, it is part of the statement
+   * which is proved, so a recursive proof which verifies this proof can rely on it.
+   */
+  publicOutput: Output;
   proof: RawProof;
   maxProofsVerified: 0 | 1 | 2;
   shouldVerify = Bool(false);
@@ -77,108 +111,285 @@ class Proof<T> {
     this.shouldVerify = condition;
   }
   toJSON(): JsonProof {
+    let { program, ...encoded } = encodeProofInstance(this);
     return {
-      publicInput: getPublicInputType(this.constructor as any)
-        .toFields(this.publicInput)
-        .map(String),
-      maxProofsVerified: this.maxProofsVerified,
-      proof: Pickles.proofToBase64([this.maxProofsVerified, this.proof]),
+      version: proofFormatVersion,
+      program: program || undefined,
+      publicInput: encoded.publicInput.map(String),
+      publicOutput: encoded.publicOutput.map(String),
+      maxProofsVerified: encoded.maxProofsVerified,
+      proof: encoded.proof,
     };
   }
   static fromJSON<S extends Subclass<typeof Proof>>(
     this: S,
     {
+      version,
+      program = '',
       maxProofsVerified,
-      proof: proofString,
-      publicInput: publicInputJson,
+      proof,
+      publicInput,
+      publicOutput = [],
     }: JsonProof
-  ): Proof<InferProvable<S['publicInputType']>> {
-    let [, proof] = Pickles.proofOfBase64(proofString, maxProofsVerified);
-    let publicInput = getPublicInputType(this).fromFields(
-      publicInputJson.map(Field)
+  ): Proof<
+    InferProvable<S['publicInputType']>,
+    InferProvable<S['publicOutputType']>
+  > {
+    checkProofFormatVersion(version, `${this.name}.fromJSON()`);
+    return decodeProofForClass(
+      this,
+      {
+        name: '',
+        program,
+        maxProofsVerified,
+        publicInput: publicInput.map(Field),
+        publicOutput: publicOutput.map(Field),
+        proof,
+      },
+      'fromJSON'
     );
-    return new this({ publicInput, proof, maxProofsVerified }) as any;
+  }
+
+  /**
+   * Encodes the proof in a compact, versioned binary format.
+   *
+   * Besides the proof and its public input and output, the encoding contains the name and digest of the program
+   * which created the proof, so that {@link Proof.fromBytes} can reject proofs that belong to a different program.
+   */
+  toBytes(): Uint8Array {
+    return encodeProof(encodeProofInstance(this));
+  }
+  /**
+   * Decodes a proof encoded with {@link Proof.toBytes}.
+   *
+   * Throws if the encoding has an unsupported version, if the proof was created by a different program,
+   * or if its public input or output doesn't have the size this proof class expects.
+   */
+  static fromBytes<S extends Subclass<typeof Proof>>(
+    this: S,
+    bytes: Uint8Array | number[]
+  ): Proof<
+    InferProvable<S['publicInputType']>,
+    InferProvable<S['publicOutputType']>
+  > {
+    return decodeProofForClass(this, decodeProof(bytes), 'fromBytes');
+  }
+  /**
+   * Same as {@link Proof.toBytes}, but returns a base64 string.
+   */
+  toBase64(): string {
+    return bytesToBase64(this.toBytes());
+  }
+  /**
+   * Decodes a proof encoded with {@link Proof.toBase64}.
+   */
+  static fromBase64<S extends Subclass<typeof Proof>>(
+    this: S,
+    base64: string
+  ): Proof<
+    InferProvable<S['publicInputType']>,
+    InferProvable<S['publicOutputType']>
+  > {
+    return this.fromBytes(base64ToBytes(base64));
   }
 
   constructor({
     proof,
     publicInput,
+    publicOutput,
     maxProofsVerified,
   }: {
     proof: RawProof;
-    publicInput: T;
+    publicInput: Input;
+    publicOutput?: Output;
     maxProofsVerified: 0 | 1 | 2;
   }) {
     this.publicInput = publicInput;
+    this.publicOutput = publicOutput as Output;
     this.proof = proof; // TODO optionally convert from string?
     this.maxProofsVerified = maxProofsVerified;
   }
 }
 
-function verify(proof: Proof<any> | JsonProof, verificationKey: string) {
-  if (typeof proof.proof === 'string') {
+function verify(
+  proof: Proof<any, any> | JsonProof | Uint8Array,
+  verificationKey: string
+) {
+  if (proof instanceof Uint8Array) {
+    // binary proof
+    let { publicInput, publicOutput, ...encoded } = decodeProof(proof);
+    let [, picklesProof] = Pickles.proofOfBase64(
+      encoded.proof,
+      encoded.maxProofsVerified
+    );
+    let statementFields = [...publicInput, ...publicOutput];
+    return Pickles.verify(statementFields, picklesProof, verificationKey);
+  } else if (typeof proof.proof === 'string') {
     // json proof
+    checkProofFormatVersion((proof as JsonProof).version, 'verify()');
     let [, picklesProof] = Pickles.proofOfBase64(
       proof.proof,
       proof.maxProofsVerified
     );
-    let publicInputFields = (proof as JsonProof).publicInput.map(Field);
-    return Pickles.verify(publicInputFields, picklesProof, verificationKey);
+    let { publicInput, publicOutput = [] } = proof as JsonProof;
+    let statementFields = [...publicInput, ...publicOutput].map(Field);
+    return Pickles.verify(statementFields, picklesProof, verificationKey);
   } else {
     // proof class
-    let publicInputFields = getPublicInputType(
-      proof.constructor as any
-    ).toFields(proof.publicInput);
-    return Pickles.verify(publicInputFields, proof.proof, verificationKey);
+    let statementFields = statementToFields(
+      proof.constructor as any,
+      proof as Proof<any, any>
+    );
+    return Pickles.verify(statementFields, proof.proof, verificationKey);
   }
 }
 
 type RawProof = unknown;
 type JsonProof = {
+  version?: number;
+  program?: string;
   publicInput: string[];
+  publicOutput?: string[];
   maxProofsVerified: 0 | 1 | 2;
   proof: string;
 };
 type CompiledTag = unknown;
 
 let compiledTags = new WeakMap<any, CompiledTag>();
+// programs whose verification key was loaded from a cache, and which are only compiled once their tag is needed
+let lazyCompiledTags = new WeakMap<any, () => CompiledTag>();
 let CompiledTag = {
   get(tag: any): CompiledTag | undefined {
-    return compiledTags.get(tag);
+    return compiledTags.get(tag) ?? lazyCompiledTags.get(tag)?.();
   },
   store(tag: any, compiledTag: CompiledTag) {
     compiledTags.set(tag, compiledTag);
   },
+  storeLazy(tag: any, compile: () => CompiledTag) {
+    lazyCompiledTags.set(tag, compile);
+  },
 };
 
+/**
+ * A verification key as stored in a {@link VerificationKeyCache}, with its hash as a decimal string.
+ */
+type CachedVerificationKey = { data: string; hash: string };
+
+// has to match the version in package.json. the bindings are released together with snarkyjs, so this also identifies them
+const snarkyjsVersion = '0.9.2';
+
+/**
+ * Returns the key under which a {@link VerificationKeyCache} stores the verification key of a program with the given digest.
+ *
+ * The key combines the `digest()` of the {@link ZkProgram} or {@link SmartContract} with the version of snarkyjs,
+ * because the same circuit can have a different verification key after an upgrade.
+ */
+function verificationKeyCacheKey(digest: string) {
+  return `${digest}-${snarkyjsVersion}`;
+}
+
+/**
+ * A storage backend for verification keys, which are keyed by {@link verificationKeyCacheKey}:
+ * the `digest()` of a {@link ZkProgram} or {@link SmartContract}, and the snarkyjs version.
+ *
+ * When `compile({ cache })` finds a verification key for the current key, it returns it right away, which is enough to deploy
+ * a contract or to verify proofs. Only the verification key is cached: the prover indices can't be serialized, so creating
+ * the first proof still runs the full compilation, which takes as long as compiling without a cache.
+ */
+interface VerificationKeyCache {
+  /**
+   * Returns the verification key stored under the given key, or `undefined` if there is none.
+   */
+  read(key: string): CachedVerificationKey | undefined;
+  /**
+   * Stores the verification key under the given key.
+   */
+  write(key: string, verificationKey: CachedVerificationKey): void;
+  /**
+   * Removes the verification key stored under the given key, or all verification keys if no key is given.
+   */
+  invalidate(key?: string): void;
+}
+
+/**
+ * A {@link VerificationKeyCache} which keeps verification keys in memory, to share them between programs in the same process.
+ */
+class MemoryVerificationKeyCache implements VerificationKeyCache {
+  private verificationKeys: Record<string, CachedVerificationKey> = {};
+
+  read(key: string): CachedVerificationKey | undefined {
+    return this.verificationKeys[key];
+  }
+
+  write(key: string, verificationKey: CachedVerificationKey) {
+    this.verificationKeys[key] = verificationKey;
+  }
+
+  invalidate(key?: string) {
+    if (key === undefined) this.verificationKeys = {};
+    else delete this.verificationKeys[key];
+  }
+}
+
 function ZkProgram<
   PublicInputType extends FlexibleProvablePure<any>,
+  PublicOutputType extends FlexibleProvablePure<any> = typeof Undefined,
   Types extends {
     // TODO: how to prevent a method called `compile` from type-checking?
     [I in string]: Tuple<PrivateInput>;
+  } = {
+    [I in string]: Tuple<PrivateInput>;
   }
 >({
   publicInput: publicInputType,
+  publicOutput: publicOutputType = Undefined as any,
   methods,
 }: {
   publicInput: PublicInputType;
+  /**
+   * The type of the values returned by the methods, which become part of the statement of the proof as `proof.publicOutput`.
+   * By default, methods don't return anything.
+   *
+   * The statement has to be known before proving, so when creating a proof, a method with a public output runs twice:
+   * once outside the circuit to compute the output, and once to create the proof. Side effects of the method, like logging
+   * or changing variables outside of it, happen twice as well.
+   */
+  publicOutput?: PublicOutputType;
   methods: {
-    [I in keyof Types]: Method<InferProvable<PublicInputType>, Types[I]>;
+    [I in keyof Types]: Method<
+      InferProvable<PublicInputType>,
+      InferProvable<PublicOutputType>,
+      Types[I]
+    >;
   };
 }): {
   name: string;
-  compile: () => Promise<{ verificationKey: string }>;
-  verify: (proof: Proof<InferProvable<PublicInputType>>) => Promise<boolean>;
+  compile: (options?: {
+    cache?: VerificationKeyCache;
+  }) => Promise<{ verificationKey: string }>;
+  verify: (
+    proof: Proof<
+      InferProvable<PublicInputType>,
+      InferProvable<PublicOutputType>
+    >
+  ) => Promise<boolean>;
   digest: () => string;
   publicInputType: PublicInputType;
+  publicOutputType: PublicOutputType;
 } & {
-  [I in keyof Types]: Prover<InferProvable<PublicInputType>, Types[I]>;
+  [I in keyof Types]: Prover<
+    InferProvable<PublicInputType>,
+    InferProvable<PublicOutputType>,
+    Types[I]
+  >;
 } {
   let selfTag = { name: `Program${i++}` };
 
   type PublicInput = InferProvable<PublicInputType>;
-  class SelfProof extends Proof<PublicInput> {
+  type PublicOutput = InferProvable<PublicOutputType>;
+  class SelfProof extends Proof<PublicInput, PublicOutput> {
     static publicInputType = publicInputType;
+    static publicOutputType = publicOutputType;
     static tag = () => selfTag;
   }
 
@@ -186,6 +397,7 @@ function ZkProgram<
   let methodIntfs = keys.map((key) =>
     sortMethodArguments('program', key, methods[key].privateInputs, SelfProof)
   );
+  programMethods.set(selfTag, methodIntfs);
   let methodFunctions = keys.map((key) => methods[key].method);
   let maxProofsVerified = methodIntfs.reduce(
     (acc, { proofArgs }) => Math.max(acc, proofArgs.length),
@@ -194,71 +406,106 @@ function ZkProgram<
 
   let compileOutput:
     | {
-        provers: Pickles.Prover[];
+        getProvers: () => Pickles.Prover[];
         verify: (publicInput: Field[], proof: unknown) => Promise<boolean>;
       }
     | undefined;
 
-  async function compile() {
-    let { provers, verify, getVerificationKeyArtifact } = compileProgram(
-      publicInputType,
-      methodIntfs,
-      methodFunctions,
-      selfTag
-    );
-    compileOutput = { provers, verify };
+  async function compile({ cache }: { cache?: VerificationKeyCache } = {}) {
+    let { getProvers, verify, getVerificationKeyArtifact } =
+      compileProgramWithVerificationKeyCache(
+        publicInputType,
+        publicOutputType,
+        methodIntfs,
+        methodFunctions,
+        selfTag,
+        cache && { cache, digest }
+      );
+    compileOutput = { getProvers, verify };
     return { verificationKey: getVerificationKeyArtifact().data };
   }
 
+  class ProgramProof extends Proof<PublicInput, PublicOutput> {
+    static publicInputType = publicInputType;
+    static publicOutputType = publicOutputType;
+    static tag = () => selfTag;
+  }
+
   function toProver<K extends keyof Types & string>(
     key: K,
     i: number
-  ): [K, Prover<PublicInput, Types[K]>] {
+  ): [K, Prover<PublicInput, PublicOutput, Types[K]>] {
     async function prove(
       publicInput: PublicInput,
       ...args: TupleToInstances<Types[typeof key]>
-    ): Promise<Proof<PublicInput>> {
-      let picklesProver = compileOutput?.provers?.[i];
+    ): Promise<Proof<PublicInput, PublicOutput>> {
+      let proverPool = getProverPool();
+      if (proverPool?._canProveProgram(selfTag, methodIntfs[i])) {
+        let jsonProof = await proverPool._proveProgram(
+          selfTag,
+          methodIntfs[i],
+          publicInputType.toFields(publicInput),
+          args
+        );
+        return ProgramProof.fromJSON(jsonProof) as ProgramProof;
+      }
+      let picklesProver = compileOutput?.getProvers()[i];
       if (picklesProver === undefined) {
         throw Error(
           `Cannot prove execution of program.${key}(), no prover found. ` +
             `Try calling \`await program.compile()\` first, this will cache provers in the background.`
         );
       }
-      let publicInputFields = publicInputType.toFields(publicInput);
+      // the public output is part of the statement that is proved, so it has to be known before proving,
+      // and is computed by running the method outside the circuit first
+      let method = methodFunctions[i] as (...args: any) => PublicOutput;
+      let publicOutput: PublicOutput =
+        publicOutputType.sizeInFields() === 0
+          ? emptyValue(publicOutputType)
+          : toConstant(publicOutputType, method(publicInput, ...args));
+      let statementFields = [
+        ...publicInputType.toFields(publicInput),
+        ...publicOutputType.toFields(publicOutput),
+      ];
       let previousProofs = getPreviousProofsForProver(args, methodIntfs[i]);
 
       let [, proof] = await snarkContext.runWithAsync(
         { witnesses: args, inProver: true },
-        () => picklesProver!(publicInputFields, previousProofs)
+        () => picklesProver!(statementFields, previousProofs)
       );
-      class ProgramProof extends Proof<PublicInput> {
-        static publicInputType = publicInputType;
-        static tag = () => selfTag;
-      }
-      return new ProgramProof({ publicInput, proof, maxProofsVerified });
+      return new ProgramProof({
+        publicInput,
+        publicOutput,
+        proof,
+        maxProofsVerified,
+      });
     }
     return [key, prove];
   }
   let provers = Object.fromEntries(keys.map(toProver)) as {
-    [I in keyof Types]: Prover<PublicInput, Types[I]>;
+    [I in keyof Types]: Prover<PublicInput, PublicOutput, Types[I]>;
   };
 
-  function verify(proof: Proof<PublicInput>) {
+  function verify(proof: Proof<PublicInput, PublicOutput>) {
     if (compileOutput?.verify === undefined) {
       throw Error(
         `Cannot verify proof, verification key not found. Try calling \`await program.compile()\` first.`
       );
     }
     return compileOutput.verify(
-      publicInputType.toFields(proof.publicInput),
+      statementToFields(SelfProof, proof),
       proof.proof
     );
   }
 
   function digest() {
     let methodData = methodIntfs.map((methodEntry, i) =>
-      analyzeMethod(publicInputType, methodEntry, methodFunctions[i])
+      analyzeMethod(
+        publicInputType,
+        methodEntry,
+        methodFunctions[i],
+        publicOutputType
+      )
     );
     let hash = Poseidon.hash(
       Object.values(methodData).map((d) => Field(BigInt('0x' + d.digest))),
@@ -269,14 +516,14 @@ function ZkProgram<
 
   return Object.assign(
     selfTag,
-    { compile, verify, digest, publicInputType },
+    { compile, verify, digest, publicInputType, publicOutputType },
     provers
   );
 }
 
 let i = 0;
 
-class SelfProof<T> extends Proof<T> {}
+class SelfProof<Input, Output = undefined> extends Proof<Input, Output> {}
 
 function sortMethodArguments(
   programName: string,
@@ -375,11 +622,10 @@ function getPreviousProofsForProver(
   for (let i = 0; i < allArgs.length; i++) {
     let arg = allArgs[i];
     if (arg.type === 'proof') {
-      let { proof, publicInput } = methodArgs[i] as Proof<any>;
-      let publicInputType = getPublicInputType(proofArgs[arg.index]);
+      let proof = methodArgs[i] as Proof<any, any>;
       previousProofs[arg.index] = {
-        publicInput: publicInputType.toFields(publicInput),
-        proof,
+        publicInput: statementToFields(proofArgs[arg.index], proof),
+        proof: proof.proof,
       };
     }
   }
@@ -399,41 +645,109 @@ type MethodInterface = {
 
 function compileProgram(
   publicInputType: ProvablePure<any>,
+  publicOutputType: ProvablePure<any>,
   methodIntfs: MethodInterface[],
-  methods: ((...args: any) => void)[],
+  methods: ((...args: any) => any)[],
   proofSystemTag: { name: string }
 ) {
   let rules = methodIntfs.map((methodEntry, i) =>
     picklesRuleFromFunction(
       publicInputType,
+      publicOutputType,
       methods[i],
       proofSystemTag,
       methodEntry
     )
   );
+  // the statement of a proof consists of its public input, followed by its public output
+  let statementSize =
+    publicInputType.sizeInFields() + publicOutputType.sizeInFields();
   let [, { getVerificationKeyArtifact, provers, verify, tag }] =
     snarkContext.runWith({ inCompile: true }, () =>
-      Pickles.compile(rules, publicInputType.sizeInFields())
+      Pickles.compile(rules, statementSize)
     );
   CompiledTag.store(proofSystemTag, tag);
   return { getVerificationKeyArtifact, provers, verify, tag };
 }
 
+/**
+ * Like {@link compileProgram}, but if the cache has a verification key for the digest of the program and the snarkyjs version,
+ * it is returned, and the program is only compiled once provers or its tag are needed.
+ * Without a cache, or if the cache has no verification key yet, the program is compiled right away, and its verification key is stored.
+ */
+function compileProgramWithVerificationKeyCache(
+  publicInputType: ProvablePure<any>,
+  publicOutputType: ProvablePure<any>,
+  methodIntfs: MethodInterface[],
+  methods: ((...args: any) => any)[],
+  proofSystemTag: { name: string },
+  options?: { cache: VerificationKeyCache; digest: () => string }
+) {
+  let compiled: ReturnType<typeof compileProgram> | undefined;
+  let compile = () =>
+    (compiled ??= compileProgram(
+      publicInputType,
+      publicOutputType,
+      methodIntfs,
+      methods,
+      proofSystemTag
+    ));
+  let key = options && verificationKeyCacheKey(options.digest());
+  let verificationKey =
+    key === undefined ? undefined : options!.cache.read(key);
+
+  if (verificationKey === undefined) {
+    let { getVerificationKeyArtifact, provers, verify } = compile();
+    if (key !== undefined) {
+      options!.cache.write(key, getVerificationKeyArtifact());
+    }
+    return { getVerificationKeyArtifact, getProvers: () => provers, verify };
+  }
+  CompiledTag.storeLazy(proofSystemTag, () => compile().tag);
+  let cachedVerificationKey = verificationKey;
+  return {
+    getVerificationKeyArtifact: () => cachedVerificationKey,
+    getProvers: () => compile().provers,
+    verify: (publicInput: Pickles.PublicInput, proof: Pickles.Proof) =>
+      Pickles.verify(publicInput, proof, cachedVerificationKey.data),
+  };
+}
+
 function analyzeMethod<T>(
   publicInputType: ProvablePure<any>,
   methodIntf: MethodInterface,
-  method: (...args: any) => T
+  method: (...args: any) => T,
+  publicOutputType: ProvablePure<any> = Undefined
 ) {
   return Circuit.constraintSystem(() => {
     let args = synthesizeMethodArguments(methodIntf, true);
     let publicInput = emptyWitness(publicInputType);
-    return method(publicInput, ...args);
+    let result = method(publicInput, ...args);
+    assertPublicOutput(
+      publicOutputType,
+      result,
+      emptyWitness(publicOutputType)
+    );
+    return result;
   });
 }
 
+// constrains the value returned by a method to equal the public output which is part of the statement
+function assertPublicOutput<T>(
+  publicOutputType: ProvablePure<T>,
+  result: T,
+  publicOutput: T
+) {
+  let resultFields = publicOutputType.toFields(result);
+  publicOutputType
+    .toFields(publicOutput)
+    .forEach((x, i) => x.assertEquals(resultFields[i]));
+}
+
 function picklesRuleFromFunction(
   publicInputType: ProvablePure<any>,
-  func: (...args: unknown[]) => void,
+  publicOutputType: ProvablePure<any>,
+  func: (...args: unknown[]) => any,
   proofSystemTag: { name: string },
   { methodName, witnessArgs, proofArgs, allArgs }: MethodInterface
 ): Pickles.Rule {
@@ -453,15 +767,13 @@ function picklesRuleFromFunction(
           : emptyWitness(type);
       } else if (arg.type === 'proof') {
         let Proof = proofArgs[arg.index];
-        let publicInput = getPublicInputType(Proof).fromFields(
-          previousInputs[arg.index]
-        );
-        let proofInstance: Proof<any>;
+        let statement = statementFromFields(Proof, previousInputs[arg.index]);
+        let proofInstance: Proof<any, any>;
         if (argsWithoutPublicInput) {
-          let { proof }: Proof<any> = argsWithoutPublicInput[i] as any;
-          proofInstance = new Proof({ publicInput, proof });
+          let { proof }: Proof<any, any> = argsWithoutPublicInput[i] as any;
+          proofInstance = new Proof({ ...statement, proof });
         } else {
-          proofInstance = new Proof({ publicInput, proof: undefined });
+          proofInstance = new Proof({ ...statement, proof: undefined });
         }
         finalArgs[i] = proofInstance;
         proofs.push(proofInstance);
@@ -469,7 +781,16 @@ function picklesRuleFromFunction(
         finalArgs[i] = argsWithoutPublicInput?.[i] ?? emptyGeneric();
       }
     }
-    func(publicInputType.fromFields(publicInput), ...finalArgs);
+    let inputSize = publicInputType.sizeInFields();
+    let result = func(
+      publicInputType.fromFields(publicInput.slice(0, inputSize)),
+      ...finalArgs
+    );
+    assertPublicOutput(
+      publicOutputType,
+      result,
+      publicOutputType.fromFields(publicInput.slice(inputSize))
+    );
     return proofs.map((proof) => proof.shouldVerify);
   }
 
@@ -508,7 +829,8 @@ function synthesizeMethodArguments(
     } else if (arg.type === 'proof') {
       let Proof = proofArgs[arg.index];
       let publicInput = empty(getPublicInputType(Proof));
-      args.push(new Proof({ publicInput, proof: undefined }));
+      let publicOutput = empty(getPublicOutputType(Proof));
+      args.push(new Proof({ publicInput, publicOutput, proof: undefined }));
     } else if (arg.type === 'generic') {
       args.push(emptyGeneric());
     }
@@ -529,7 +851,13 @@ function methodArgumentsToConstant(
     } else if (type === 'proof') {
       let Proof = proofArgs[index];
       let publicInput = toConstant(getPublicInputType(Proof), arg.publicInput);
-      constArgs.push(new Proof({ publicInput, proof: arg.proof }));
+      let publicOutput = toConstant(
+        getPublicOutputType(Proof),
+        arg.publicOutput
+      );
+      constArgs.push(
+        new Proof({ publicInput, publicOutput, proof: arg.proof })
+      );
     } else if (type === 'generic') {
       constArgs.push(arg);
     }
@@ -553,10 +881,11 @@ function methodArgumentTypesAndValues(
       typesAndValues.push({ type: witnessArgs[index], value: arg });
     } else if (type === 'proof') {
       let Proof = proofArgs[index];
-      typesAndValues.push({
-        type: getPublicInputType(Proof),
-        value: (arg as Proof<any>).publicInput,
-      });
+      let { publicInput, publicOutput } = arg as Proof<any, any>;
+      typesAndValues.push(
+        { type: getPublicInputType(Proof), value: publicInput },
+        { type: getPublicOutputType(Proof), value: publicOutput }
+      );
     } else if (type === 'generic') {
       typesAndValues.push({ type: Generic, value: arg });
     }
@@ -589,12 +918,146 @@ function getPublicInputType<T, P extends Subclass<typeof Proof> = typeof Proof>(
   return Proof.publicInputType as any;
 }
 
+function getPublicOutputType<
+  T,
+  P extends Subclass<typeof Proof> = typeof Proof
+>(Proof: P): ProvablePure<T> {
+  return (Proof.publicOutputType ?? Undefined) as any;
+}
+
+// the fields of the statement of a proof, which are passed to Pickles: the public input, followed by the public output
+function statementToFields<P extends Subclass<typeof Proof>>(
+  Proof: P,
+  { publicInput, publicOutput }: { publicInput: unknown; publicOutput: unknown }
+) {
+  return [
+    ...getPublicInputType(Proof).toFields(publicInput),
+    ...getPublicOutputType(Proof).toFields(publicOutput),
+  ];
+}
+
+function statementFromFields<P extends Subclass<typeof Proof>>(
+  Proof: P,
+  fields: Field[]
+) {
+  let publicInputType = getPublicInputType(Proof);
+  let inputSize = publicInputType.sizeInFields();
+  return {
+    publicInput: publicInputType.fromFields(fields.slice(0, inputSize)),
+    publicOutput: getPublicOutputType(Proof).fromFields(
+      fields.slice(inputSize)
+    ),
+  };
+}
+
+// the method interfaces of every ZkProgram, so that prover workers can decode the arguments of its methods
+let programMethods = new WeakMap<any, MethodInterface[]>();
+
+function getProgramMethods(program: unknown) {
+  let methodIntfs = programMethods.get(program);
+  if (methodIntfs === undefined) throw Error('bug: not a ZkProgram');
+  return methodIntfs;
+}
+
+// serialization helpers
+
+// digests are memoized per program, because computing them requires analyzing all methods
+let programDigests = new WeakMap<any, string>();
+
+function programIdentifier(ProofClass: Subclass<typeof Proof>) {
+  let tag: { name: string; digest?: () => string } = ProofClass.tag();
+  return { name: tag.name, digest: programDigest(tag) };
+}
+
+/**
+ * The digest of a {@link ZkProgram} or {@link SmartContract}, or `undefined` for other proof tags.
+ */
+function programDigest(tag: { digest?: () => string }) {
+  if (typeof tag.digest !== 'function') return undefined;
+  let digest = programDigests.get(tag);
+  if (digest === undefined) {
+    digest = tag.digest();
+    programDigests.set(tag, digest);
+  }
+  return digest;
+}
+
+function encodeProofInstance(proof: Proof<any, any>): EncodedProof {
+  let ProofClass = proof.constructor as Subclass<typeof Proof>;
+  let { name, digest } = programIdentifier(ProofClass);
+  return {
+    name,
+    program: digest ?? '',
+    maxProofsVerified: proof.maxProofsVerified,
+    publicInput: getPublicInputType(ProofClass).toFields(proof.publicInput),
+    publicOutput: getPublicOutputType(ProofClass).toFields(proof.publicOutput),
+    proof: Pickles.proofToBase64([proof.maxProofsVerified, proof.proof]),
+  };
+}
+
+function decodeProofForClass<P extends Subclass<typeof Proof>>(
+  Proof: P,
+  encoded: EncodedProof,
+  method: string
+) {
+  let methodName = `${Proof.name}.${method}()`;
+  let { name, digest } = programIdentifier(Proof);
+  if (encoded.program !== '' && digest !== undefined) {
+    if (encoded.program !== digest) {
+      let createdBy = encoded.name === '' ? '' : ` (${encoded.name})`;
+      throw Error(
+        `${methodName}: The proof was created by a different program${createdBy}.\n` +
+          `Expected a proof of ${name} with digest ${digest}, but got a proof of a program with digest ${encoded.program}.`
+      );
+    }
+  }
+  let inputSize = getPublicInputType(Proof).sizeInFields();
+  let outputSize = getPublicOutputType(Proof).sizeInFields();
+  if (encoded.publicInput.length !== inputSize) {
+    throw Error(
+      `${methodName}: Expected a public input of ${inputSize} field elements, but the proof has ${encoded.publicInput.length}.\n` +
+        `Is the proof loaded against the right program?`
+    );
+  }
+  if (encoded.publicOutput.length !== outputSize) {
+    throw Error(
+      `${methodName}: Expected a public output of ${outputSize} field elements, but the proof has ${encoded.publicOutput.length}.\n` +
+        `Is the proof loaded against the right program?`
+    );
+  }
+  let [, proof] = Pickles.proofOfBase64(
+    encoded.proof,
+    encoded.maxProofsVerified
+  );
+  let { publicInput, publicOutput } = statementFromFields(Proof, [
+    ...encoded.publicInput,
+    ...encoded.publicOutput,
+  ]);
+  return new Proof({
+    publicInput,
+    publicOutput,
+    proof,
+    maxProofsVerified: encoded.maxProofsVerified,
+  }) as Proof<
+    InferProvable<P['publicInputType']>,
+    InferProvable<P['publicOutputType']>
+  >;
+}
+
 ZkProgram.Proof = function <
-  PublicInputType extends FlexibleProvablePure<any>
->(program: { name: string; publicInputType: PublicInputType }) {
+  PublicInputType extends FlexibleProvablePure<any>,
+  PublicOutputType extends FlexibleProvablePure<any> = typeof Undefined
+>(program: {
+  name: string;
+  publicInputType: PublicInputType;
+  publicOutputType?: PublicOutputType;
+}) {
   type PublicInput = InferProvable<PublicInputType>;
-  return class ZkProgramProof extends Proof<PublicInput> {
+  type PublicOutput = InferProvable<PublicOutputType>;
+  return class ZkProgramProof extends Proof<PublicInput, PublicOutput> {
     static publicInputType = program.publicInputType;
+    static publicOutputType = (program.publicOutputType ??
+      Undefined) as PublicOutputType;
     static tag = () => program;
   };
 };
@@ -656,12 +1119,15 @@ type Subclass<Class extends new (...args: any) => any> = (new (
 
 type PrivateInput = Provable<any> | Subclass<typeof Proof>;
 
-type Method<PublicInput, Args extends Tuple<PrivateInput>> = {
+type Method<PublicInput, PublicOutput, Args extends Tuple<PrivateInput>> = {
   privateInputs: Args;
-  method(publicInput: PublicInput, ...args: TupleToInstances<Args>): void;
+  method(
+    publicInput: PublicInput,
+    ...args: TupleToInstances<Args>
+  ): PublicOutput extends undefined ? void : PublicOutput;
 };
 
-type Prover<PublicInput, Args extends Tuple<PrivateInput>> = (
+type Prover<PublicInput, PublicOutput, Args extends Tuple<PrivateInput>> = (
   publicInput: PublicInput,
   ...args: TupleToInstances<Args>
-) => Promise<Proof<PublicInput>>;
+) => Promise<Proof<PublicInput, PublicOutput>>;
@@ -0,0 +1,20 @@
+// worker script for prover_pool.test.ts
+// it defines the same program as the test, so that both have the same digest
+import { isReady, Field, Experimental, runProverWorker } from 'snarkyjs';
+
+await isReady;
+
+let Square = Experimental.ZkProgram({
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    run: {
+      privateInputs: [],
+      method(x) {
+        return x.mul(x);
+      },
+    },
+  },
+});
+
+await runProverWorker({ Square });
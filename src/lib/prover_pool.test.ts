@@ -0,0 +1,92 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Experimental,
+  ProverPool,
+  setProverPool,
+  runProverWorker,
+} from 'snarkyjs';
+
+let Square = Experimental.ZkProgram({
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    run: {
+      privateInputs: [],
+      method(x: Field) {
+        return x.mul(x);
+      },
+    },
+  },
+});
+
+describe('prover pool', () => {
+  beforeAll(async () => {
+    await isReady;
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('checks the pool size', async () => {
+    await expect(
+      ProverPool.start({ worker: './prover-worker.js', size: 0 })
+    ).rejects.toThrow(/size must be a positive integer/);
+  });
+
+  it('only runs the prover side of the pool in a worker', async () => {
+    await expect(runProverWorker({ Square })).rejects.toThrow(
+      /has to be called in the worker script/
+    );
+  });
+
+  it('fails to start if a worker exits before registering its programs', async () => {
+    await expect(
+      ProverPool.start({
+        worker: new URL('data:text/javascript,process.exit(1)'),
+        size: 1,
+      })
+    ).rejects.toThrow(/exited with code 1/);
+  });
+
+  it('fails to start if a worker reports an error before registering its programs', async () => {
+    // this worker would stay alive if the pool didn't stop it
+    let script = `import { parentPort } from 'node:worker_threads';
+      parentPort.postMessage({ type: 'error', message: 'no programs' });
+      setInterval(() => {}, 1000);`;
+    await expect(
+      ProverPool.start({
+        worker: new URL(`data:text/javascript,${encodeURIComponent(script)}`),
+        size: 2,
+      })
+    ).rejects.toThrow(/failed to start: no programs/);
+  });
+
+  it('proves a ZkProgram in workers and returns the proofs in order', async () => {
+    let pool = await ProverPool.start({
+      worker: new URL('./prover_pool.test-worker.js', import.meta.url),
+      size: 2,
+    });
+    setProverPool(pool);
+    try {
+      // Square isn't compiled on this thread, so these proofs can only be created by the workers
+      let inputs = [2, 3, 4, 5];
+      let proofs = await Promise.all(inputs.map((x) => Square.run(Field(x))));
+      expect(proofs.map((proof) => proof.publicInput)).toEqual(
+        inputs.map((x) => Field(x))
+      );
+      expect(proofs.map((proof) => proof.publicOutput)).toEqual(
+        inputs.map((x) => Field(x * x))
+      );
+
+      await Square.compile();
+      for (let proof of proofs) {
+        expect(await Square.verify(proof)).toEqual(true);
+      }
+    } finally {
+      setProverPool(undefined);
+      await pool.close();
+    }
+  });
+});
@@ -0,0 +1,542 @@
+import { Field, Pickles, isReady } from '../snarky.js';
+import {
+  VerificationKeyCache,
+  getPreviousProofsForProver,
+  getProgramMethods,
+  JsonProof,
+  MethodInterface,
+  programDigest,
+} from './proof_system.js';
+import {
+  LazyProof,
+  proveAccountUpdate,
+  TokenId,
+  ZkappCommand,
+} from './account_update.js';
+import * as Mina from './mina.js';
+import type { SmartContract } from './zkapp.js';
+import { Types } from '../provable/types.js';
+import { Layout, provableFromLayout } from '../provable/gen/transaction.js';
+import { jsLayout } from '../provable/gen/js-layout.js';
+import { NetworkValue } from './precondition.js';
+import { spawnWorker, getWorkerPort, WorkerHandle } from './worker_threads.js';
+
+export { ProverPool, setProverPool, runProverWorker, ProverWorkerProgram };
+// internal API
+export { getProverPool };
+
+/**
+ * A {@link ZkProgram} or {@link SmartContract} class, which can be registered with {@link runProverWorker}.
+ */
+type ProverWorkerProgram =
+  | typeof SmartContract
+  | {
+      name: string;
+      compile(options?: { cache?: VerificationKeyCache }): Promise<unknown>;
+      digest(): string;
+    };
+
+let proverPool: ProverPool | undefined;
+
+/**
+ * Sets the {@link ProverPool} which creates proofs in worker threads, or removes it when called with `undefined`.
+ *
+ * With a prover pool, `Transaction.prove()` proves the account updates of a transaction in parallel, and the provers of a
+ * `ZkProgram` send their work to the pool, so that proofs which are requested at the same time are created at the same time.
+ *
+ * Only programs which were registered by the worker script are proved by the pool, all other proofs are created on
+ * the current thread, as without a pool.
+ */
+function setProverPool(pool: ProverPool | undefined) {
+  proverPool = pool;
+}
+
+function getProverPool() {
+  return proverPool;
+}
+
+type EncodedArgument =
+  | { type: 'witness'; fields: string[]; aux: any[] }
+  | { type: 'proof'; proof: JsonProof };
+
+type ProgramJob = {
+  kind: 'program';
+  program: string;
+  methodName: string;
+  publicInput: string[];
+  args: EncodedArgument[];
+};
+
+type AccountUpdateJob = {
+  kind: 'account-update';
+  program: string;
+  methodName: string;
+  publicInput: string[];
+  args: EncodedArgument[];
+  transaction: Types.Json.ZkappCommand;
+  index: number;
+  memoized: { fields: string[]; aux: any[] }[];
+  blindingValue: string;
+  accounts: Types.Json.Account[];
+  networkState?: unknown;
+};
+
+type ProverJob = ProgramJob | AccountUpdateJob;
+
+type WorkerMessage =
+  | { type: 'ready'; programs: string[] }
+  | { type: 'error'; message: string; id?: number }
+  | { type: 'program-proof'; id: number; proof: JsonProof }
+  | {
+      type: 'account-update-proof';
+      id: number;
+      proof: string;
+      maxProofsVerified: 0 | 1 | 2;
+    };
+
+type PendingJob = {
+  id: number;
+  job: ProverJob;
+  resolve: (message: WorkerMessage) => void;
+  reject: (error: Error) => void;
+};
+
+type PoolWorker = { handle: WorkerHandle; job?: PendingJob };
+
+/**
+ * A pool of worker threads (in Node.js) or web workers (in the browser), which create proofs in parallel.
+ *
+ * Every worker runs a script which registers the programs it can prove, with {@link runProverWorker}.
+ * Workers compile a program the first time they prove it, which takes as long as compiling it in the main thread.
+ *
+ * ```ts
+ * // prover-worker.ts
+ * import { runProverWorker } from 'snarkyjs';
+ * import { MyContract, MyProgram } from './contracts.js';
+ *
+ * await runProverWorker({ MyContract, MyProgram });
+ *
+ * // main.ts
+ * let pool = await ProverPool.start({
+ *   worker: new URL('./prover-worker.js', import.meta.url),
+ *   size: 4,
+ * });
+ * setProverPool(pool);
+ * await tx.prove(); // independent account updates are proved in parallel
+ * await pool.close();
+ * ```
+ *
+ * Note that every worker also uses several threads to create a single proof, so a few workers are usually enough.
+ */
+class ProverPool {
+  private workers: PoolWorker[] = [];
+  private queue: PendingJob[] = [];
+  private programs = new Set<string>();
+  private nextId = 0;
+  private closed = false;
+
+  private constructor() {}
+
+  /**
+   * Starts a pool of workers, which run the given script, and waits until all of them registered their programs.
+   *
+   * @param options.worker Path or URL of the worker script, which calls {@link runProverWorker}.
+   * @param options.size Number of workers, by default 2.
+   */
+  static async start({
+    worker: script,
+    size = 2,
+  }: {
+    worker: string | URL;
+    size?: number;
+  }) {
+    if (!Number.isInteger(size) || size < 1)
+      throw Error(
+        `ProverPool.start(): size must be a positive integer, got ${size}.`
+      );
+    let pool = new ProverPool();
+    try {
+      await Promise.all(
+        Array.from({ length: size }, () => pool.startWorker(script))
+      );
+    } catch (err) {
+      await pool.close();
+      throw err;
+    }
+    return pool;
+  }
+
+  /**
+   * The number of workers in this pool.
+   */
+  get size() {
+    return this.workers.length;
+  }
+
+  /**
+   * Stops all workers. Pending proofs are rejected.
+   */
+  async close() {
+    this.closed = true;
+    if (proverPool === this) proverPool = undefined;
+    for (let job of this.queue) job.reject(Error('ProverPool was closed.'));
+    this.queue = [];
+    let workers = this.workers;
+    this.workers = [];
+    for (let worker of workers) {
+      worker.job?.reject(Error('ProverPool was closed.'));
+    }
+    await Promise.all(workers.map((worker) => worker.handle.terminate()));
+  }
+
+  // internal methods, called by the provers
+
+  _canProveProgram(program: unknown, methodIntf: MethodInterface) {
+    if (this.closed || methodIntf.genericArgs.length > 0) return false;
+    let digest = programDigest(program as { digest?: () => string });
+    return digest !== undefined && this.programs.has(digest);
+  }
+
+  async _proveProgram(
+    program: unknown,
+    methodIntf: MethodInterface,
+    publicInput: Field[],
+    args: unknown[]
+  ): Promise<JsonProof> {
+    let message = await this.run({
+      kind: 'program',
+      program: programDigest(program as { digest: () => string })!,
+      methodName: methodIntf.methodName,
+      publicInput: publicInput.map(String),
+      args: encodeArguments(methodIntf, args),
+    });
+    if (message.type !== 'program-proof') throw Error('bug: wrong response');
+    return message.proof;
+  }
+
+  _canProveAccountUpdate({ ZkappClass, methodName }: LazyProof) {
+    let methodIntf = ZkappClass._methods?.find(
+      (m) => m.methodName === methodName
+    );
+    if (methodIntf === undefined) return false;
+    return this._canProveProgram(ZkappClass, methodIntf);
+  }
+
+  async _proveAccountUpdate(
+    transaction: ZkappCommand,
+    index: number,
+    { ZkappClass, methodName, args, memoized, blindingValue }: LazyProof,
+    publicInput: Field[]
+  ): Promise<Pickles.Proof> {
+    let methodIntf = ZkappClass._methods!.find(
+      (m) => m.methodName === methodName
+    )!;
+    let message = await this.run({
+      kind: 'account-update',
+      program: programDigest(ZkappClass)!,
+      methodName,
+      publicInput: publicInput.map(String),
+      args: encodeArguments(methodIntf, args),
+      transaction: ZkappCommand.toJSON(transaction),
+      index,
+      memoized: memoized.map(({ fields, aux }) => ({
+        fields: fields.map(String),
+        aux,
+      })),
+      blindingValue: blindingValue.toString(),
+      accounts: touchedAccounts(transaction).map(Types.Account.toJSON),
+      networkState: currentNetworkState(),
+    });
+    if (message.type !== 'account-update-proof')
+      throw Error('bug: wrong response');
+    let [, proof] = Pickles.proofOfBase64(
+      message.proof,
+      message.maxProofsVerified
+    );
+    return proof;
+  }
+
+  private run(job: ProverJob) {
+    if (this.closed) return Promise.reject(Error('ProverPool was closed.'));
+    return new Promise<WorkerMessage>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, job, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  // hands out queued jobs to idle workers. every worker creates one proof at a time
+  private dispatch() {
+    for (let worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (worker.job !== undefined) continue;
+      let job = this.queue.shift()!;
+      worker.job = job;
+      worker.handle.postMessage({ id: job.id, job: job.job });
+    }
+  }
+
+  private startWorker(script: string | URL) {
+    let handle = spawnWorker(script);
+    let worker: PoolWorker = { handle };
+    return new Promise<void>((resolve, reject) => {
+      let isReady = false;
+      let hasFailed = false;
+      // a worker which failed to start is not part of the pool, so it has to be stopped here, or it could keep the process alive
+      let failToStart = (error: Error) => {
+        if (hasFailed) return;
+        hasFailed = true;
+        reject(error);
+        handle.terminate().catch(() => {});
+      };
+      handle.onMessage((message: WorkerMessage) => {
+        if (message.type === 'ready') {
+          // the pool was closed while this worker started, e.g. because another worker failed to start
+          if (this.closed) {
+            failToStart(Error('ProverPool was closed.'));
+            return;
+          }
+          isReady = true;
+          message.programs.forEach((digest) => this.programs.add(digest));
+          this.workers.push(worker);
+          this.dispatch();
+          resolve();
+          return;
+        }
+        if (message.type === 'error' && message.id === undefined) {
+          failToStart(
+            Error(`Prover worker failed to start: ${message.message}`)
+          );
+          return;
+        }
+        let job = worker.job;
+        if (job === undefined || !('id' in message) || message.id !== job.id)
+          return;
+        worker.job = undefined;
+        if (message.type === 'error') job.reject(Error(message.message));
+        else job.resolve(message);
+        this.dispatch();
+      });
+      // the worker crashed or exited, so it is removed from the pool, and its job fails
+      let removeWorker = (error: Error) => {
+        if (!isReady) {
+          failToStart(error);
+          return;
+        }
+        if (!this.workers.includes(worker)) return;
+        this.workers = this.workers.filter((w) => w !== worker);
+        worker.job?.reject(error);
+        worker.job = undefined;
+        if (this.workers.length === 0) {
+          for (let job of this.queue) job.reject(error);
+          this.queue = [];
+        }
+      };
+      handle.onError(removeWorker);
+      handle.onExit((exitCode) => {
+        removeWorker(Error(`Prover worker exited with code ${exitCode}.`));
+      });
+    });
+  }
+}
+
+/**
+ * Runs the prover side of a {@link ProverPool}. Call this in the worker script that is passed to `ProverPool.start()`,
+ * with all programs that the worker should prove.
+ *
+ * @param programs The {@link ZkProgram}s and {@link SmartContract} classes which this worker can prove.
+ * @param options.cache A cache for the verification keys of the programs, which is passed to their `compile()`.
+ */
+async function runProverWorker(
+  programs: Record<string, ProverWorkerProgram>,
+  { cache }: { cache?: VerificationKeyCache } = {}
+) {
+  let port = getWorkerPort();
+  if (port === undefined)
+    throw Error(
+      'runProverWorker() has to be called in the worker script which is passed to ProverPool.start().'
+    );
+  let workerPort = port;
+  let registered = new Map<
+    string,
+    { program: ProverWorkerProgram; compiled?: Promise<unknown> }
+  >();
+  try {
+    await isReady;
+    for (let program of Object.values(programs)) {
+      registered.set(programDigest(program)!, { program });
+    }
+  } catch (err: any) {
+    workerPort.postMessage({ type: 'error', message: err.message });
+    return;
+  }
+
+  async function prove(job: ProverJob): Promise<WorkerMessage> {
+    let entry = registered.get(job.program);
+    if (entry === undefined)
+      throw Error(`Program with digest ${job.program} is not registered.`);
+    entry.compiled ??= entry.program.compile({ cache });
+    await entry.compiled;
+    let publicInput = job.publicInput.map(Field);
+
+    if (job.kind === 'program') {
+      let program = entry.program as Record<string, any>;
+      let methodIntf = getProgramMethods(program).find(
+        (m) => m.methodName === job.methodName
+      )!;
+      let args = decodeArguments(methodIntf, job.args);
+      let publicInputType = program.publicInputType;
+      let proof = await program[job.methodName](
+        publicInputType.fromFields(publicInput),
+        ...args
+      );
+      return { type: 'program-proof', id: -1, proof: proof.toJSON() };
+    }
+
+    let ZkappClass = entry.program as typeof SmartContract;
+    let methodIntf = ZkappClass._methods!.find(
+      (m) => m.methodName === job.methodName
+    )!;
+    let args = decodeArguments(methodIntf, job.args);
+    let transaction = ZkappCommand.fromJSON(job.transaction);
+    Mina.setActiveInstance(
+      Mina.ReplicatedState({
+        accounts: job.accounts.map(Types.Account.fromJSON),
+        networkState:
+          job.networkState === undefined
+            ? undefined
+            : NetworkState().fromJSON(job.networkState),
+      })
+    );
+    let proof = await proveAccountUpdate(
+      transaction,
+      job.index,
+      transaction.accountUpdates[job.index],
+      {
+        methodName: job.methodName,
+        args,
+        previousProofs: getPreviousProofsForProver(args, methodIntf),
+        ZkappClass,
+        memoized: job.memoized.map(({ fields, aux }) => ({
+          fields: fields.map(Field),
+          aux,
+        })),
+        blindingValue: Field(job.blindingValue),
+      },
+      publicInput
+    );
+    let maxProofsVerified = ZkappClass._maxProofsVerified!;
+    return {
+      type: 'account-update-proof',
+      id: -1,
+      proof: Pickles.proofToBase64([maxProofsVerified, proof]),
+      maxProofsVerified,
+    };
+  }
+
+  // jobs are run one after another, because provers on the same thread would clash with our global variable hacks
+  let queue = Promise.resolve();
+  workerPort.onMessage(({ id, job }: { id: number; job: ProverJob }) => {
+    queue = queue.then(async () => {
+      try {
+        let message = await prove(job);
+        workerPort.postMessage({ ...message, id });
+      } catch (err: any) {
+        workerPort.postMessage({ type: 'error', id, message: err.message });
+      }
+    });
+  });
+  workerPort.postMessage({ type: 'ready', programs: [...registered.keys()] });
+}
+
+// encoding of method arguments, which have to be sent to workers as plain data
+
+function encodeArguments(
+  { allArgs, witnessArgs }: MethodInterface,
+  args: unknown[]
+): EncodedArgument[] {
+  return allArgs.map(({ type, index }, i) => {
+    if (type === 'proof') {
+      return { type, proof: (args[i] as { toJSON(): JsonProof }).toJSON() };
+    }
+    if (type === 'witness') {
+      let witnessType = witnessArgs[index];
+      return {
+        type,
+        fields: witnessType.toFields(args[i]).map(String),
+        aux: witnessType.toAuxiliary(args[i]),
+      };
+    }
+    throw Error('bug: generic arguments are not sent to workers');
+  });
+}
+
+function decodeArguments(
+  { allArgs, witnessArgs, proofArgs }: MethodInterface,
+  args: EncodedArgument[]
+): unknown[] {
+  return allArgs.map(({ index }, i) => {
+    let arg = args[i];
+    if (arg.type === 'proof') return proofArgs[index].fromJSON(arg.proof);
+    return witnessArgs[index].fromFields(arg.fields.map(Field), arg.aux);
+  });
+}
+
+// the parts of the blockchain which a prover worker can read: the accounts touched by the transaction, and the network state
+
+function touchedAccounts({ feePayer, accountUpdates }: ZkappCommand) {
+  let accounts: Types.Account[] = [];
+  let touched = [
+    { publicKey: feePayer.body.publicKey, tokenId: TokenId.default },
+    ...accountUpdates.map(({ body }) => body),
+  ];
+  for (let { publicKey, tokenId } of touched) {
+    let isNew = accounts.every(
+      (account) =>
+        !account.publicKey.equals(publicKey).toBoolean() ||
+        !account.tokenId.equals(tokenId).toBoolean()
+    );
+    if (isNew && Mina.hasAccount(publicKey, tokenId)) {
+      accounts.push(Mina.getAccount(publicKey, tokenId));
+    }
+  }
+  return accounts;
+}
+
+function currentNetworkState() {
+  try {
+    return NetworkState().toJSON(Mina.getNetworkState());
+  } catch {
+    return undefined;
+  }
+}
+
+// created on first use, because this module is part of an import cycle with the modules that define these types
+let NetworkState_: ReturnType<typeof createNetworkStateType> | undefined;
+function NetworkState() {
+  NetworkState_ ??= createNetworkStateType();
+  return NetworkState_;
+}
+// the network state has the layout of the network precondition, with every precondition replaced by the value it constrains,
+// so that it stays in sync with the protocol
+function createNetworkStateType() {
+  let layout =
+    jsLayout.AccountUpdate.entries.body.entries.preconditions.entries.network;
+  return provableFromLayout<NetworkValue, unknown>(
+    preconditionValueLayout(layout as Layout)
+  );
+}
+function preconditionValueLayout(layout: Layout): Layout {
+  if (layout.type === 'option') {
+    if (layout.optionType === 'closedInterval')
+      return layout.inner.entries.lower;
+    return layout.inner;
+  }
+  if (layout.type === 'object') {
+    let entries: Record<string, Layout> = {};
+    for (let key of layout.keys) {
+      entries[key] = preconditionValueLayout(layout.entries[key]);
+    }
+    return { ...layout, entries };
+  }
+  return layout;
+}
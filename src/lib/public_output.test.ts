@@ -0,0 +1,62 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Experimental,
+  SelfProof,
+  verify,
+} from 'snarkyjs';
+
+// sums up the public inputs of a chain of proofs, in the public output of the last one
+let Sum = Experimental.ZkProgram({
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    base: {
+      privateInputs: [],
+      method(publicInput: Field) {
+        return publicInput;
+      },
+    },
+    step: {
+      privateInputs: [SelfProof],
+      method(publicInput: Field, earlierProof: SelfProof<Field, Field>) {
+        earlierProof.verify();
+        return earlierProof.publicOutput.add(publicInput);
+      },
+    },
+  },
+});
+
+describe('public output of ZkProgram', () => {
+  let verificationKey: string;
+
+  beforeAll(async () => {
+    await isReady;
+    ({ verificationKey } = await Sum.compile());
+  });
+  afterAll(async () => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('returns the public output of a method as part of the proof', async () => {
+    let proof = await Sum.base(Field(2));
+    expect(proof.publicOutput).toEqual(Field(2));
+
+    // the recursive proof uses the public output of the earlier proof
+    proof = await Sum.step(Field(3), proof);
+    expect(proof.publicOutput).toEqual(Field(5));
+    expect(await Sum.verify(proof)).toEqual(true);
+
+    let json = proof.toJSON();
+    expect(json.publicOutput).toEqual(['5']);
+    expect(await verify(json, verificationKey)).toEqual(true);
+    // a proof with a different public output doesn't verify
+    expect(
+      await verify({ ...json, publicOutput: ['6'] }, verificationKey)
+    ).toEqual(false);
+
+    let SumProof = Experimental.ZkProgram.Proof(Sum);
+    expect(SumProof.fromJSON(json).publicOutput).toEqual(Field(5));
+  });
+});
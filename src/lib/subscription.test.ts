@@ -0,0 +1,221 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  isReady,
+  shutdown,
+  Field,
+  Ledger,
+  PrivateKey,
+  PublicKey,
+  UInt32,
+  AccountUpdate,
+  subscribeToEvents,
+  subscribeToActions,
+} from 'snarkyjs';
+
+type Block = { height: number; hash: string; events: string[][] };
+
+describe('subscriptions', () => {
+  let server: Server;
+  let endpoint: string;
+  let address: PublicKey;
+  // the chain served by the stand-in archive node, which tests can modify between polls
+  let blocks: Block[] = [];
+  let actionBlocks: string[][][] = [];
+  let requests = 0;
+
+  beforeAll(async () => {
+    await isReady;
+    address = PrivateKey.random().toPublicKey();
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests++;
+        let { query } = JSON.parse(body);
+        let data = query.includes('events(')
+          ? { events: eventsResponse(query) }
+          : { actions: actionsResponse(query) };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ data }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    setTimeout(shutdown, 0);
+  });
+  beforeEach(() => {
+    blocks = [];
+    actionBlocks = [];
+  });
+
+  function eventsResponse(query: string) {
+    let from = Number(/from: (\d+)/.exec(query)?.[1] ?? 0);
+    let maxHeight = Math.max(0, ...blocks.map((b) => b.height));
+    return blocks
+      .filter((b) => b.height >= from)
+      .map((b) => ({
+        blockInfo: {
+          distanceFromMaxBlockHeight: maxHeight - b.height,
+          height: b.height,
+          globalSlotSinceGenesis: b.height,
+          stateHash: b.hash,
+          parentHash: '',
+          chainStatus: 'pending',
+        },
+        transactionInfo: { hash: `tx-${b.hash}`, memo: '', status: 'applied' },
+        eventData: b.events.map((data, index) => ({ index: `${index}`, data })),
+      }));
+  }
+
+  function actionsResponse(query: string) {
+    let from = /fromActionState: "(\w+)"/.exec(query)?.[1];
+    let start = from === undefined ? 0 : actionHashes().indexOf(from) + 1;
+    let hashes = [emptyActionsHash(), ...actionHashes()];
+    return actionBlocks.slice(start).map((b, i) => ({
+      blockInfo: { distanceFromMaxBlockHeight: actionBlocks.length - i },
+      actionState: {
+        actionStateOne: hashes[start + i + 1],
+        actionStateTwo: hashes[start + i],
+      },
+      actionData: b.map((data) => ({ accountUpdateId: '1', data })),
+    }));
+  }
+
+  // action hashes of the served chain, computed like the archive node would
+  function actionHashes() {
+    let { SequenceEvents } = AccountUpdate;
+    let hash = SequenceEvents.emptySequenceState();
+    return actionBlocks.map((actions) => {
+      let eventsHash = SequenceEvents.hash(
+        actions.map((action) => action.map((f) => Field(f)))
+      );
+      hash = SequenceEvents.updateSequenceState(hash, eventsHash);
+      return Ledger.fieldToBase58(hash);
+    });
+  }
+  function emptyActionsHash() {
+    return Ledger.fieldToBase58(
+      AccountUpdate.SequenceEvents.emptySequenceState()
+    );
+  }
+
+  it('delivers every event once', async () => {
+    let delivered: string[][][] = [];
+    let subscription = subscribeToEvents(address, undefined, {
+      graphqlEndpoint: endpoint,
+      onData: (events) => delivered.push(...events.map((e) => e.events)),
+    });
+
+    blocks.push({ height: 1, hash: 'a1', events: [['1']] });
+    await subscription.poll();
+    blocks.push({ height: 2, hash: 'a2', events: [['2'], ['3']] });
+    await subscription.poll();
+    await subscription.poll();
+
+    expect(delivered).toEqual([[['1']], [['2'], ['3']]]);
+    expect(subscription.cursor.blockHeight?.toString()).toEqual('2');
+  });
+
+  it('reports events which were removed by a chain reorganization', async () => {
+    let delivered: string[] = [];
+    let removed: string[] = [];
+    let subscription = subscribeToEvents(address, undefined, {
+      graphqlEndpoint: endpoint,
+      reorgDepth: 2,
+      onData: (events) => delivered.push(...events.map((e) => e.blockHash)),
+      onRemoved: (events) => removed.push(...events.map((e) => e.blockHash)),
+    });
+
+    blocks.push({ height: 1, hash: 'a1', events: [['1']] });
+    blocks.push({ height: 2, hash: 'a2', events: [['2']] });
+    await subscription.poll();
+
+    // block 2 is replaced by another one
+    blocks[1] = { height: 2, hash: 'b2', events: [['20']] };
+    blocks.push({ height: 3, hash: 'b3', events: [['30']] });
+    await subscription.poll();
+
+    expect(removed).toEqual(['a2']);
+    expect(delivered).toEqual(['a1', 'a2', 'b2', 'b3']);
+  });
+
+  it('resumes from a block height', async () => {
+    blocks.push({ height: 1, hash: 'a1', events: [['1']] });
+    blocks.push({ height: 2, hash: 'a2', events: [['2']] });
+    let delivered: string[] = [];
+    let subscription = subscribeToEvents(address, undefined, {
+      graphqlEndpoint: endpoint,
+      from: UInt32.from(2),
+      onData: (events) => delivered.push(...events.map((e) => e.blockHash)),
+    });
+    await subscription.poll();
+    expect(delivered).toEqual(['a2']);
+  });
+
+  it('delivers actions in order and handles chain reorganizations', async () => {
+    let delivered: string[][][] = [];
+    let removed: string[][][] = [];
+    let subscription = subscribeToActions(address, undefined, {
+      graphqlEndpoint: endpoint,
+      reorgDepth: 2,
+      onData: (actions) => delivered.push(...actions.map((a) => a.actions)),
+      onRemoved: (actions) => removed.push(...actions.map((a) => a.actions)),
+    });
+
+    actionBlocks.push([['1']]);
+    actionBlocks.push([['2']]);
+    await subscription.poll();
+    actionBlocks.push([['3']]);
+    await subscription.poll();
+    expect(delivered).toEqual([[['1']], [['2']], [['3']]]);
+
+    // the last action is replaced
+    actionBlocks[2] = [['4']];
+    await subscription.poll();
+    expect(removed).toEqual([[['3']]]);
+    expect(delivered).toEqual([[['1']], [['2']], [['3']], [['4']]]);
+    expect(subscription.cursor.actionHash).toEqual(actionHashes()[2]);
+  });
+
+  it('polls in the background until stopped', async () => {
+    blocks.push({ height: 1, hash: 'a1', events: [['1']] });
+    let delivered = 0;
+    let subscription = subscribeToEvents(address, undefined, {
+      graphqlEndpoint: endpoint,
+      interval: 10,
+      onData: (events) => (delivered += events.length),
+    });
+    let requestsBefore = requests;
+    subscription.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    subscription.stop();
+    let requestsAfterStop = requests;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(delivered).toEqual(1);
+    expect(requestsAfterStop - requestsBefore).toBeGreaterThan(1);
+    expect(requests).toEqual(requestsAfterStop);
+  });
+
+  it('runs a single loop when restarted during a poll', async () => {
+    let subscription = subscribeToEvents(address, undefined, {
+      graphqlEndpoint: endpoint,
+      interval: 50,
+      onData() {},
+    });
+    subscription.start();
+    subscription.stop();
+    subscription.start();
+    // both polls finish and schedule the next one
+    await new Promise((resolve) => setTimeout(resolve, 25));
+    subscription.stop();
+    let requestsAfterStop = requests;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(requests).toEqual(requestsAfterStop);
+  });
+});
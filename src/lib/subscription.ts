@@ -0,0 +1,300 @@
+/**
+ * This file contains subscriptions which follow the events and actions of a zkApp over time,
+ * by polling the archive node GraphQL API.
+ */
+
+import { Field } from './core.js';
+import * as Fetch from './fetch.js';
+import { UInt32 } from './int.js';
+import { PublicKey } from './signature.js';
+import { TokenId } from './account_update.js';
+
+// external API
+export {
+  subscribeToEvents,
+  subscribeToActions,
+  Subscription,
+  SubscriptionOptions,
+  FetchedEvent,
+  FetchedAction,
+};
+
+type FetchedEvent = Awaited<ReturnType<typeof Fetch.fetchEvents>>[number];
+type FetchedAction = { hash: string; actions: string[][] };
+
+/**
+ * A running subscription. Polling only starts after calling `start()`; alternatively, `poll()` can be called manually.
+ */
+type Subscription<Cursor> = {
+  /**
+   * Starts polling in the background, every `interval` milliseconds. The first poll happens immediately.
+   */
+  start(): void;
+  /**
+   * Stops polling. A poll which is currently running still delivers its results.
+   */
+  stop(): void;
+  /**
+   * Polls once, and calls the handlers with the results.
+   * Errors are thrown, not passed to `onError`.
+   */
+  poll(): Promise<void>;
+  /**
+   * The position up to which data was delivered, which can be stored to resume the subscription later.
+   */
+  readonly cursor: Cursor;
+};
+
+type SubscriptionOptions = {
+  /**
+   * Milliseconds to wait between two polls. Defaults to 30 seconds.
+   */
+  interval?: number;
+  /**
+   * Number of blocks (for events) or account updates (for actions) which are fetched again on every poll, to detect
+   * chain reorganizations. Data which is older than that is considered final. Defaults to 10.
+   */
+  reorgDepth?: number;
+  /**
+   * The archive node GraphQL endpoint, defaults to the one set with `Mina.Network()` or `setArchiveGraphqlEndpoint()`.
+   */
+  graphqlEndpoint?: string;
+};
+
+type SubscriptionHandlers<T> = {
+  /**
+   * Called with data which wasn't delivered before, in the order returned by the archive node.
+   */
+  onData(data: T[]): void;
+  /**
+   * Called with previously delivered data which is no longer part of the chain, because of a chain reorganization.
+   * It's called before `onData` receives the data which replaced it.
+   */
+  onRemoved?(data: T[]): void;
+  /**
+   * Called when a background poll fails. Polling continues afterwards. Defaults to logging the error.
+   */
+  onError?(error: unknown): void;
+};
+
+/**
+ * Subscribes to the events emitted by a zkApp, by polling the archive node.
+ *
+ * Every event is delivered once. To handle chain reorganizations, the last `reorgDepth` blocks are fetched again on every poll;
+ * events which disappeared from them are passed to `onRemoved`, and events which replaced them to `onData`.
+ *
+ * The events are raw, like the ones returned by {@link Mina.fetchEvents}; use `decodeEvent()` to turn them into their declared types.
+ *
+ * ```ts
+ * let subscription = subscribeToEvents(zkappAddress, TokenId.default, {
+ *   from: UInt32.from(lastSeenHeight + 1),
+ *   onData(events) { ... },
+ *   onRemoved(events) { ... },
+ * });
+ * subscription.start();
+ * // later, store `subscription.cursor.blockHeight` to resume from there
+ * ```
+ * @param publicKey The address of the zkApp.
+ * @param tokenId The token id of the zkApp account.
+ * @param options Handlers and options of the subscription, and the block height `from` which to fetch events (defaults to 0).
+ * @returns A {@link Subscription}, with a cursor holding the height of the last block from which events were delivered.
+ */
+function subscribeToEvents(
+  publicKey: PublicKey,
+  tokenId: Field = TokenId.default,
+  {
+    from = UInt32.from(0),
+    ...options
+  }: SubscriptionOptions &
+    SubscriptionHandlers<FetchedEvent> & {
+      from?: UInt32;
+    }
+): Subscription<{ blockHeight?: UInt32 }> {
+  let reorgDepth = options.reorgDepth ?? defaultReorgDepth;
+  let accountInfo = {
+    publicKey: publicKey.toBase58(),
+    tokenId: TokenId.toBase58(tokenId),
+  };
+  // events of the last `reorgDepth` blocks, by a key which identifies them, to detect duplicates and removed events
+  let recent = new Map<string, FetchedEvent>();
+  let cursor: { blockHeight?: UInt32 } = {};
+
+  async function poll() {
+    let start = from;
+    if (cursor.blockHeight !== undefined) {
+      let height = Number(cursor.blockHeight.toBigint()) - reorgDepth;
+      if (height > Number(from.toBigint())) start = UInt32.from(height);
+    }
+    let events = await Fetch.fetchEvents(accountInfo, options.graphqlEndpoint, {
+      from: start,
+    });
+    let fetched = new Map(events.map((event) => [eventKey(event), event]));
+
+    // fetchEvents may leave out the best tip; events above the highest fetched block are kept, because they might reappear
+    let highest = events.reduce(
+      (max, { blockHeight }) =>
+        max.lessThan(blockHeight).toBoolean() ? blockHeight : max,
+      start
+    );
+    let removed: FetchedEvent[] = [];
+    for (let [key, event] of recent) {
+      if (event.blockHeight.lessThan(start).toBoolean()) continue;
+      if (highest.lessThan(event.blockHeight).toBoolean()) continue;
+      if (!fetched.has(key)) {
+        removed.push(event);
+        recent.delete(key);
+      }
+    }
+    let added = events.filter((event) => !recent.has(eventKey(event)));
+
+    for (let event of added) {
+      recent.set(eventKey(event), event);
+      if (
+        cursor.blockHeight === undefined ||
+        cursor.blockHeight.lessThan(event.blockHeight).toBoolean()
+      )
+        cursor.blockHeight = event.blockHeight;
+    }
+    for (let [key, event] of recent) {
+      if (event.blockHeight.lessThan(start).toBoolean()) recent.delete(key);
+    }
+    if (removed.length > 0) options.onRemoved?.(removed);
+    if (added.length > 0) options.onData(added);
+  }
+
+  return createSubscription(poll, () => cursor, options);
+}
+
+/**
+ * Subscribes to the actions dispatched by a zkApp, by polling the archive node.
+ *
+ * Actions are delivered per account update, in order, together with the action hash after that account update — the same shape
+ * as returned by {@link Mina.fetchActions}. To handle chain reorganizations, the actions of the last `reorgDepth` account updates are
+ * fetched again on every poll; if they changed, the ones which are no longer part of the chain are passed to `onRemoved`, and the
+ * ones which replaced them to `onData`.
+ *
+ * ```ts
+ * let subscription = subscribeToActions(zkappAddress, TokenId.default, {
+ *   fromActionHash: storedActionHash,
+ *   onData(actions) { ... },
+ * });
+ * subscription.start();
+ * // later, store `subscription.cursor.actionHash` to resume from there
+ * ```
+ * @param publicKey The address of the zkApp.
+ * @param tokenId The token id of the zkApp account.
+ * @param options Handlers and options of the subscription, and the action hash (in base58) after which to fetch actions (defaults to the first action).
+ * @returns A {@link Subscription}, with a cursor holding the hash of the last delivered actions.
+ */
+function subscribeToActions(
+  publicKey: PublicKey,
+  tokenId: Field = TokenId.default,
+  {
+    fromActionHash,
+    ...options
+  }: SubscriptionOptions &
+    SubscriptionHandlers<FetchedAction> & {
+      fromActionHash?: string;
+    }
+): Subscription<{ actionHash?: string }> {
+  let reorgDepth = options.reorgDepth ?? defaultReorgDepth;
+  // actions are always fetched after `anchor`, which is assumed to be final
+  let anchor = fromActionHash;
+  // delivered actions after `anchor`, at most `reorgDepth` of them
+  let recent: FetchedAction[] = [];
+
+  async function poll() {
+    let actions = await Fetch.fetchActions(
+      {
+        publicKey: publicKey.toBase58(),
+        tokenId: TokenId.toBase58(tokenId),
+        actionStates: { fromActionHash: anchor },
+      },
+      options.graphqlEndpoint
+    );
+    // the action hashes form a chain, so everything after the first mismatch has changed
+    let i = 0;
+    while (
+      i < recent.length &&
+      i < actions.length &&
+      recent[i].hash === actions[i].hash
+    )
+      i++;
+    let removed = recent.slice(i);
+    let added = actions.slice(i);
+    // if the archive node returns fewer actions than before, but the rest matches, fetchActions left out the best tip;
+    // this is not a reorganization, so the delivered actions are kept
+    if (added.length === 0 && i === actions.length) removed = [];
+    else recent = actions;
+
+    if (recent.length > reorgDepth) {
+      let final = recent.length - reorgDepth;
+      anchor = recent[final - 1].hash;
+      recent = recent.slice(final);
+    }
+    if (removed.length > 0) options.onRemoved?.(removed);
+    if (added.length > 0) options.onData(added);
+  }
+
+  return createSubscription(
+    poll,
+    () => ({ actionHash: recent[recent.length - 1]?.hash ?? anchor }),
+    options
+  );
+}
+
+const defaultInterval = 30000;
+const defaultReorgDepth = 10;
+
+function createSubscription<Cursor>(
+  poll: () => Promise<void>,
+  getCursor: () => Cursor,
+  {
+    interval = defaultInterval,
+    onError = (error: unknown) =>
+      console.error('Polling the archive node failed:', error),
+  }: SubscriptionOptions & { onError?(error: unknown): void }
+): Subscription<Cursor> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isRunning = false;
+  // increased on every start(), so that a loop which was stopped while polling doesn't continue next to a new one
+  let generation = 0;
+  // polls are queued, so that results are never delivered twice or out of order
+  let lastPoll = Promise.resolve();
+
+  function pollOnce() {
+    let result = lastPoll.then(poll);
+    lastPoll = result.catch(() => {});
+    return result;
+  }
+
+  async function loop(loopGeneration: number) {
+    try {
+      await pollOnce();
+    } catch (error) {
+      onError(error);
+    }
+    if (isRunning && loopGeneration === generation)
+      timer = setTimeout(() => loop(loopGeneration), interval);
+  }
+
+  return {
+    start() {
+      if (isRunning) return;
+      isRunning = true;
+      loop(++generation);
+    },
+    stop() {
+      isRunning = false;
+      clearTimeout(timer);
+    },
+    poll: pollOnce,
+    get cursor() {
+      return getCursor();
+    },
+  };
+}
+
+function eventKey({ blockHash, transactionHash, events }: FetchedEvent) {
+  return `${blockHash};${transactionHash};${JSON.stringify(events)}`;
+}
@@ -0,0 +1,150 @@
+import {
+  isReady,
+  shutdown,
+  Mina,
+  PrivateKey,
+  PublicKey,
+  AccountUpdate,
+  UInt32,
+  UInt64,
+  startMockGraphqlServer,
+  MockGraphqlServer,
+} from 'snarkyjs';
+
+describe('transaction status', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>;
+  let server: MockGraphqlServer;
+  let feePayerKey: PrivateKey;
+  let feePayer: PublicKey;
+  let receiver: PublicKey;
+
+  async function send(f: () => void) {
+    let tx = await Mina.transaction({ sender: feePayer, fee: 1e8 }, f);
+    return await tx.sign([feePayerKey]).send();
+  }
+
+  function payment() {
+    AccountUpdate.createSigned(feePayer).send({
+      to: receiver,
+      amount: UInt64.from(1e9),
+    });
+  }
+
+  beforeAll(async () => {
+    await isReady;
+  });
+  // every test uses a new mock node, where sent transactions wait in the mempool until a block is produced
+  beforeEach(async () => {
+    Local = Mina.LocalBlockchain({
+      proofsEnabled: false,
+      blockProduction: 'manual',
+    });
+    server = await startMockGraphqlServer(Local);
+    Mina.setActiveInstance(
+      Mina.Network({ mina: server.endpoint, archive: server.endpoint })
+    );
+    feePayerKey = Local.testAccounts[0].privateKey;
+    feePayer = Local.testAccounts[0].publicKey;
+    receiver = Local.testAccounts[1].publicKey;
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+  afterAll(() => {
+    setTimeout(shutdown, 0);
+  });
+
+  it('reports pending and included transactions with their block and confirmations', async () => {
+    let txId = await send(payment);
+    expect(await txId.status()).toEqual({ status: 'pending' });
+
+    let block = Local.produceBlock();
+    let status = await txId.status();
+    expect(status).toMatchObject({ status: 'included', confirmations: 0 });
+    expect(status.status === 'included' && status.blockHeight).toEqual(
+      block.height
+    );
+
+    Local.produceBlock();
+    Local.produceBlock();
+    expect(await txId.status()).toMatchObject({
+      status: 'included',
+      confirmations: 2,
+    });
+  });
+
+  it('waits for the given number of confirmations', async () => {
+    let txId = await send(payment);
+    Local.produceBlock();
+    await expect(
+      txId.wait({ confirmations: 1, interval: 10, maxAttempts: 3 })
+    ).rejects.toThrow(/last received status: included with 0 confirmations/);
+
+    Local.produceBlock();
+    await txId.wait({ confirmations: 1, interval: 10, maxAttempts: 3 });
+  });
+
+  it('rejects with the failure reasons of a transaction that failed in a block', async () => {
+    let txId = await send(() => {
+      let update = AccountUpdate.create(receiver);
+      update.account.nonce.assertEquals(UInt32.from(100));
+    });
+    Local.produceBlock();
+
+    let status = await txId.status();
+    expect(status.status).toEqual('failed');
+    expect(status.status === 'failed' && status.failureReasons).toContainEqual({
+      index: 1,
+      failures: ['Account_nonce_precondition_unsatisfied'],
+    });
+    await expect(txId.wait({ interval: 10, maxAttempts: 3 })).rejects.toThrow(
+      /failed in the block at height 1[\s\S]*Account_nonce_precondition_unsatisfied/
+    );
+  });
+
+  it('reports an included transaction that is not archived yet as pending', async () => {
+    // an archive node which lags behind, because it doesn't know any of the transactions
+    let archive = await startMockGraphqlServer(
+      Mina.LocalBlockchain({ proofsEnabled: false })
+    );
+    Mina.setActiveInstance(
+      Mina.Network({ mina: server.endpoint, archive: archive.endpoint })
+    );
+    try {
+      let txId = await send(payment);
+      Local.produceBlock();
+      expect(await txId.status()).toEqual({ status: 'pending' });
+    } finally {
+      await archive.close();
+    }
+  });
+
+  it('looks up old transactions in the archive', async () => {
+    let txId = await send(payment);
+    let block = Local.produceBlock();
+    for (let i = 0; i < 300; i++) Local.produceBlock();
+
+    let status = await txId.status();
+    expect(status).toMatchObject({ status: 'included', confirmations: 300 });
+    expect(status.status === 'included' && status.blockHeight).toEqual(
+      block.height
+    );
+  });
+
+  it('waits for inclusion without an archive node', async () => {
+    Mina.setActiveInstance(Mina.Network(server.endpoint));
+    let txId = await send(payment);
+    Local.produceBlock();
+    await txId.wait({ interval: 10, maxAttempts: 3 });
+    await expect(
+      txId.wait({ confirmations: 1, interval: 10, maxAttempts: 3 })
+    ).rejects.toThrow(/needs an archive endpoint/);
+  });
+
+  it('reports replaced transactions as dropped', async () => {
+    let txId = await send(payment);
+    await txId.replace({ fee: 2e8, keys: [feePayerKey] });
+    Local.produceBlock();
+    expect(await txId.status()).toEqual({ status: 'dropped' });
+  });
+});
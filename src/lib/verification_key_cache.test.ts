@@ -0,0 +1,94 @@
+import {
+  isReady,
+  shutdown,
+  Field,
+  Experimental,
+  FileVerificationKeyCache,
+  MemoryVerificationKeyCache,
+  verificationKeyCacheKey,
+} from 'snarkyjs';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// creates a new program with the same circuit every time, like a new process would
+function SquareProgram() {
+  return Experimental.ZkProgram({
+    publicInput: Field,
+    methods: {
+      run: {
+        privateInputs: [Field],
+        method(publicInput: Field, x: Field) {
+          x.square().assertEquals(publicInput);
+        },
+      },
+    },
+  });
+}
+
+describe('verification key cache', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    await isReady;
+    directory = mkdtempSync(join(tmpdir(), 'verification-key-cache-'));
+  });
+  afterAll(async () => {
+    rmSync(directory, { recursive: true, force: true });
+    setTimeout(shutdown, 0);
+  });
+
+  it('stores the verification key by digest and version, and reuses it on the next compile', async () => {
+    let cache = FileVerificationKeyCache.open(directory);
+    let program = SquareProgram();
+    let key = verificationKeyCacheKey(program.digest());
+    expect(cache.read(key)).toBeUndefined();
+
+    let { verificationKey } = await program.compile({ cache });
+    expect(existsSync(join(directory, `${key}.json`))).toEqual(true);
+    expect(cache.read(key)?.data).toEqual(verificationKey);
+    let proof = await program.run(Field(9), Field(3));
+
+    // the cached program can verify proofs right away, and compiles its prover on the first proof
+    let cachedProgram = SquareProgram();
+    let cached = await cachedProgram.compile({
+      cache: FileVerificationKeyCache.open(directory),
+    });
+    expect(cached.verificationKey).toEqual(verificationKey);
+    expect(await cachedProgram.verify(proof)).toEqual(true);
+    let cachedProof = await cachedProgram.run(Field(16), Field(4));
+    expect(await program.verify(cachedProof)).toEqual(true);
+  });
+
+  it('compiles again after the cache is invalidated', async () => {
+    let cache = new MemoryVerificationKeyCache();
+    let program = SquareProgram();
+    let key = verificationKeyCacheKey(program.digest());
+    cache.write(key, { data: 'outdated', hash: '0' });
+    expect((await program.compile({ cache })).verificationKey).toEqual(
+      'outdated'
+    );
+
+    cache.invalidate(key);
+    expect(cache.read(key)).toBeUndefined();
+    let { verificationKey } = await program.compile({ cache });
+    expect(verificationKey).not.toEqual('outdated');
+    expect(cache.read(key)?.data).toEqual(verificationKey);
+
+    let fileCache = FileVerificationKeyCache.open(directory);
+    fileCache.invalidate();
+    expect(fileCache.read(key)).toBeUndefined();
+  });
+
+  it('ignores verification keys of other snarkyjs versions', async () => {
+    let { version } = JSON.parse(readFileSync('package.json', 'utf8'));
+    let program = SquareProgram();
+    let digest = program.digest();
+    expect(verificationKeyCacheKey(digest)).toEqual(`${digest}-${version}`);
+
+    let cache = new MemoryVerificationKeyCache();
+    cache.write(`${digest}-0.0.0`, { data: 'outdated', hash: '0' });
+    let { verificationKey } = await program.compile({ cache });
+    expect(verificationKey).not.toEqual('outdated');
+  });
+});
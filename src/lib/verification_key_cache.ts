@@ -0,0 +1,79 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { CachedVerificationKey, VerificationKeyCache } from './proof_system.js';
+
+export { FileVerificationKeyCache };
+
+/**
+ * A {@link VerificationKeyCache} which stores the verification keys created by `compile()` in a directory, with one JSON file per key,
+ * so that they can be reused by later processes, e.g. in the next CI job or after a server restart.
+ *
+ * This cache is only available in Node.js.
+ *
+ * ```ts
+ * let cache = FileVerificationKeyCache.open('./verification-keys');
+ * await MyContract.compile({ cache });
+ * // verification keys of earlier snarkyjs versions are not used anymore, and can be removed
+ * cache.invalidate();
+ * ```
+ */
+class FileVerificationKeyCache implements VerificationKeyCache {
+  private constructor(public readonly directory: string) {}
+
+  /**
+   * Opens the cache in the given directory, which is created if it doesn't exist.
+   * @param directory Path of the directory in which verification keys are stored.
+   * @returns A new FileVerificationKeyCache
+   */
+  static open(directory: string) {
+    mkdirSync(directory, { recursive: true });
+    return new FileVerificationKeyCache(directory);
+  }
+
+  read(key: string): CachedVerificationKey | undefined {
+    let path = this.path(key);
+    if (!existsSync(path)) return undefined;
+    let verificationKey = JSON.parse(readFileSync(path, 'utf8'));
+    if (
+      typeof verificationKey?.data !== 'string' ||
+      typeof verificationKey?.hash !== 'string'
+    )
+      throw Error(
+        `FileVerificationKeyCache.read: Malformed verification key in ${path}. Invalidate it with \`cache.invalidate('${key}')\`.`
+      );
+    return { data: verificationKey.data, hash: verificationKey.hash };
+  }
+
+  /**
+   * Stores the verification key under the given key. The file is written to a temporary location first,
+   * so that a process which is stopped while writing can't leave a partial file behind.
+   */
+  write(key: string, verificationKey: CachedVerificationKey) {
+    let path = this.path(key);
+    let tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(verificationKey));
+    renameSync(tmpPath, path);
+  }
+
+  invalidate(key?: string) {
+    let files =
+      key === undefined
+        ? readdirSync(this.directory).filter((file) => file.endsWith('.json'))
+        : [`${key}.json`];
+    for (let file of files) {
+      rmSync(join(this.directory, file), { force: true });
+    }
+  }
+
+  private path(key: string) {
+    return join(this.directory, `${key}.json`);
+  }
+}
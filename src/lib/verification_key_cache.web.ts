@@ -0,0 +1,32 @@
+import { CachedVerificationKey, VerificationKeyCache } from './proof_system.js';
+
+export { FileVerificationKeyCache };
+
+/**
+ * A {@link VerificationKeyCache} which stores the verification keys created by `compile()` in a directory.
+ *
+ * This cache is only available in Node.js; in the browser, all methods throw.
+ */
+class FileVerificationKeyCache implements VerificationKeyCache {
+  private constructor(public readonly directory: string) {}
+
+  static open(directory: string): FileVerificationKeyCache {
+    throw notSupported();
+  }
+
+  read(key: string): CachedVerificationKey | undefined {
+    throw notSupported();
+  }
+
+  write(key: string, verificationKey: CachedVerificationKey) {
+    throw notSupported();
+  }
+
+  invalidate(key?: string) {
+    throw notSupported();
+  }
+}
+
+function notSupported() {
+  return Error('FileVerificationKeyCache is not supported in the browser.');
+}
@@ -0,0 +1,59 @@
+import { Worker, parentPort } from 'worker_threads';
+
+export { WorkerHandle, WorkerPort, spawnWorker, getWorkerPort };
+
+/**
+ * The main thread's side of a worker.
+ */
+type WorkerHandle = {
+  postMessage(message: unknown): void;
+  onMessage(listener: (message: any) => void): void;
+  onError(listener: (error: Error) => void): void;
+  onExit(listener: (exitCode: number) => void): void;
+  terminate(): Promise<void>;
+};
+
+/**
+ * The worker's side of the connection to the main thread.
+ */
+type WorkerPort = {
+  postMessage(message: unknown): void;
+  onMessage(listener: (message: any) => void): void;
+};
+
+function spawnWorker(script: string | URL): WorkerHandle {
+  let worker = new Worker(script);
+  return {
+    postMessage(message) {
+      worker.postMessage(message);
+    },
+    onMessage(listener) {
+      worker.on('message', listener);
+    },
+    onError(listener) {
+      worker.on('error', listener);
+    },
+    onExit(listener) {
+      worker.on('exit', listener);
+    },
+    async terminate() {
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * Returns the connection to the main thread, or `undefined` if this code doesn't run in a worker.
+ */
+function getWorkerPort(): WorkerPort | undefined {
+  let port = parentPort;
+  if (port === null) return undefined;
+  return {
+    postMessage(message) {
+      port!.postMessage(message);
+    },
+    onMessage(listener) {
+      port!.on('message', listener);
+    },
+  };
+}
@@ -0,0 +1,64 @@
+export { WorkerHandle, WorkerPort, spawnWorker, getWorkerPort };
+
+/**
+ * The main thread's side of a worker.
+ */
+type WorkerHandle = {
+  postMessage(message: unknown): void;
+  onMessage(listener: (message: any) => void): void;
+  onError(listener: (error: Error) => void): void;
+  onExit(listener: (exitCode: number) => void): void;
+  terminate(): Promise<void>;
+};
+
+/**
+ * The worker's side of the connection to the main thread.
+ */
+type WorkerPort = {
+  postMessage(message: unknown): void;
+  onMessage(listener: (message: any) => void): void;
+};
+
+function spawnWorker(script: string | URL): WorkerHandle {
+  let worker = new Worker(script, { type: 'module' });
+  return {
+    postMessage(message) {
+      worker.postMessage(message);
+    },
+    onMessage(listener) {
+      worker.addEventListener('message', (event) => listener(event.data));
+    },
+    onError(listener) {
+      worker.addEventListener('error', (event) =>
+        listener(Error(event.message))
+      );
+    },
+    // web workers don't report when they exit; a worker which closes itself is only noticed when it doesn't respond
+    onExit() {},
+    async terminate() {
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * Returns the connection to the main thread, or `undefined` if this code doesn't run in a web worker.
+ */
+function getWorkerPort(): WorkerPort | undefined {
+  let scope = globalThis as any;
+  if (
+    typeof scope.WorkerGlobalScope !== 'function' ||
+    !(scope instanceof scope.WorkerGlobalScope)
+  )
+    return undefined;
+  return {
+    postMessage(message) {
+      scope.postMessage(message);
+    },
+    onMessage(listener) {
+      scope.addEventListener('message', (event: MessageEvent) =>
+        listener(event.data)
+      );
+    },
+  };
+}
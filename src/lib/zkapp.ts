@@ -50,7 +50,9 @@ import {
 } from './precondition.js';
 import {
   analyzeMethod,
-  compileProgram,
+  compileProgramWithVerificationKeyCache,
+  VerificationKeyCache,
+  Undefined,
   emptyValue,
   GenericArgument,
   getPreviousProofsForProver,
@@ -79,6 +81,7 @@ export {
   Account,
   VerificationKey,
   Reducer,
+  decodeEvent,
 };
 
 const reservedPropNames = new Set(['_methods', '_']);
@@ -629,7 +632,8 @@ class SmartContract {
       gates: Gate[];
     }
   > = {}; // keyed by method name
-  static _provers?: Pickles.Prover[];
+  // returns the provers, which are only compiled on the first call if the contract was compiled from a cache
+  static _getProvers?: () => Pickles.Prover[];
   static _maxProofsVerified?: 0 | 1 | 2;
   static _verificationKey?: { data: string; hash: Field };
 
@@ -671,8 +675,20 @@ class SmartContract {
    * and one for the "wrap circuit" which wraps it so that proofs end up in the original finite field). These are fairly expensive
    * operations, so **expect compiling to take at least 20 seconds**, up to several minutes if your circuit is large or your hardware
    * is not optimal for these operations.
+   *
+   * With a {@link VerificationKeyCache}, the verification key is stored under the {@link SmartContract.digest} of the contract
+   * and the snarkyjs version, see {@link verificationKeyCacheKey}.
+   * If the cache already has a verification key for the current digest and version, it is returned right away, which makes it cheap to
+   * compile in processes which only deploy the contract or verify proofs. Only the verification key is cached: the provers are
+   * created once the first proof is needed, which takes as long as compiling without a cache.
+   *
+   * ```ts
+   * let { verificationKey } = await MyContract.compile({ cache: FileVerificationKeyCache.open('./verification-keys') });
+   * ```
+   *
+   * @param options.cache A cache to load the verification key from, and to store it in.
    */
-  static async compile() {
+  static async compile({ cache }: { cache?: VerificationKeyCache } = {}) {
     let methodIntfs = this._methods ?? [];
     let methods = methodIntfs.map(({ methodName }) => {
       return (
@@ -687,20 +703,28 @@ class SmartContract {
     });
     // run methods once to get information that we need already at compile time
     this.analyzeMethods();
-    let { getVerificationKeyArtifact, provers, verify } = compileProgram(
-      ZkappPublicInput,
-      methodIntfs,
-      methods,
-      this
-    );
+    let { getVerificationKeyArtifact, getProvers, verify } =
+      compileProgramWithVerificationKeyCache(
+        ZkappPublicInput,
+        Undefined,
+        methodIntfs,
+        methods,
+        this,
+        cache && { cache, digest: () => this.digest() }
+      );
 
     let verificationKey = getVerificationKeyArtifact();
-    this._provers = provers;
+    this._getProvers = getProvers;
     this._verificationKey = {
       data: verificationKey.data,
       hash: Field(verificationKey.hash),
     };
-    // TODO: instead of returning provers, return an artifact from which provers can be recovered
+    // provers which are loaded from a cache are only compiled when they are called
+    let provers = methodIntfs.map(
+      (_, i): Pickles.Prover =>
+        (publicInput, previousProofs) =>
+          getProvers()[i](publicInput, previousProofs)
+    );
     return { verificationKey, provers, verify };
   }
 
@@ -1054,7 +1078,7 @@ super.init();
   ): Promise<
     {
       type: string;
-      event: ProvablePure<any>;
+      event: any;
       blockHeight: UInt32;
       blockHash: string;
       parentBlockHash: string;
@@ -1091,36 +1115,9 @@ super.init();
       })
       .flat();
 
-    // used to match field values back to their original type
-    let sortedEventTypes = Object.keys(this.events).sort();
-
     return events.map((eventData) => {
-      // if there is only one event type, the event structure has no index and can directly be matched to the event type
-      if (sortedEventTypes.length === 1) {
-        let type = sortedEventTypes[0];
-        let event = this.events[type].fromFields(
-          eventData.event.map((f: string) => Field(f))
-        );
-        return {
-          ...eventData,
-          type,
-          event,
-        };
-      } else {
-        // if there are multiple events we have to use the index event[0] to find the exact event type
-        let eventObjectIndex = Number(eventData.event[0]);
-        let type = sortedEventTypes[eventObjectIndex];
-        // all other elements of the array are values used to construct the original object, we can drop the first value since its just an index
-        let eventProps = eventData.event.slice(1);
-        let event = this.events[type].fromFields(
-          eventProps.map((f: string) => Field(f))
-        );
-        return {
-          ...eventData,
-          type,
-          event,
-        };
-      }
+      let { type, event } = decodeEvent(this.events, eventData.event);
+      return { ...eventData, type, event };
     });
   }
 
@@ -1266,6 +1263,24 @@ type ReducerReturn<Action> = {
     fromActionHash?: Field;
     endActionHash?: Field;
   }): Action[][];
+  /**
+   * Fetches the list of previously emitted {@link Action}s by this {@link SmartContract}, outside of a circuit.
+   *
+   * On `Mina.Network`, the actions are fetched from the archive node and cached,
+   * so that a subsequent `this.reducer.getActions()` inside a transaction or the prover can use them.
+   * ```ts
+   * let pendingActions = await zkapp.reducer.fetchActions({
+   *    fromActionHash: actionsHash,
+   * });
+   * ```
+   */
+  fetchActions({
+    fromActionHash,
+    endActionHash,
+  }: {
+    fromActionHash?: Field;
+    endActionHash?: Field;
+  }): Promise<Action[][]>;
 };
 
 function getReducer<A>(contract: SmartContract): ReducerReturn<A> {
@@ -1366,49 +1381,44 @@ Use the optional \`maxTransactionsWithActions\` argument to increase this number
     }): A[][] {
       let actionsForAccount: A[][] = [];
       Circuit.asProver(() => {
-        // if the fromActionHash is the empty state, we fetch all events
-        fromActionHash = fromActionHash
-          ?.equals(SequenceEvents.emptySequenceState())
-          .toBoolean()
-          ? undefined
-          : fromActionHash;
-
-        // used to determine start and end values in string
-        let start: string | undefined = fromActionHash
-          ? Ledger.fieldToBase58(fromActionHash)
-          : undefined;
-        let end: string | undefined = endActionHash
-          ? Ledger.fieldToBase58(endActionHash)
-          : undefined;
-
-        let actions = Mina.getActions(contract.address, contract.self.tokenId);
-
-        // gets the start/end indices of our array slice
-        let startIndex = start
-          ? actions.findIndex((e) => e.hash === start) + 1
-          : 0;
-        let endIndex = end
-          ? actions.findIndex((e) => e.hash === end) + 1
-          : undefined;
-
-        // slices the array so we only get the wanted range between fromActionHash and endActionHash
-        actionsForAccount = actions
-          .slice(startIndex, endIndex === 0 ? undefined : endIndex)
-          .map((event: { hash: string; actions: string[][] }) =>
-            // putting our string-Fields back into the original action type
-            event.actions.map((action: string[]) =>
-              (reducer.actionType as ProvablePure<A>).fromFields(
-                action.map((fieldAsString: string) => Field(fieldAsString))
-              )
-            )
-          );
+        // only the actions in the range between fromActionHash and endActionHash are returned
+        let actions = Mina.getActions(contract.address, contract.self.tokenId, {
+          fromActionHash,
+          endActionHash,
+        });
+        actionsForAccount = actions.map(({ actions }) =>
+          actions.map((action) => actionFromStrings(reducer, action))
+        );
       });
 
       return actionsForAccount;
     },
+    async fetchActions({
+      fromActionHash,
+      endActionHash,
+    }: {
+      fromActionHash?: Field;
+      endActionHash?: Field;
+    }): Promise<A[][]> {
+      let actions = await Mina.fetchActions(
+        contract.address,
+        contract.self.tokenId,
+        { fromActionHash, endActionHash }
+      );
+      return actions.map(({ actions }) =>
+        actions.map((action) => actionFromStrings(reducer, action))
+      );
+    },
   };
 }
 
+// puts our string-Fields back into the original action type
+function actionFromStrings<A>(reducer: Reducer<A>, action: string[]): A {
+  return (reducer.actionType as ProvablePure<A>).fromFields(
+    action.map((fieldAsString) => Field(fieldAsString))
+  );
+}
+
 class VerificationKey extends Struct({
   ...provable({ data: String, hash: Field }),
   toJSON({ data }: { data: string }) {
@@ -1531,3 +1541,64 @@ const Reducer: (<
  * TODO find or write library that can print nice JS object diffs
  */
 const DEBUG_PUBLIC_INPUT_CHECK = false;
+
+/**
+ * Decodes the raw field elements of an event, as returned by {@link Mina.fetchEvents}, back into its type and value,
+ * using the same event declaration as the contract which emitted it.
+ *
+ * Like {@link SmartContract.emitEvent}, this sorts the declared event types by name. If there is more than one type,
+ * the first field element is the index of the event type in that order.
+ *
+ * ```ts
+ * let rawEvents = await Mina.fetchEvents(zkappAddress, TokenId.default);
+ * let { type, event } = decodeEvent(zkapp.events, rawEvents[0].events[0]);
+ * ```
+ * @param eventTypes The event types declared on the contract, i.e. its `events` property.
+ * @param fields The field elements of a single event, as Fields or strings.
+ * @returns The name of the event type and the decoded event.
+ */
+function decodeEvent<
+  Events extends { [key: string]: FlexibleProvablePure<any> }
+>(
+  eventTypes: Events,
+  fields: (Field | string)[]
+): {
+  type: keyof Events & string;
+  event: InferProvable<Events[keyof Events]>;
+} {
+  let sortedEventTypes = Object.keys(eventTypes).sort();
+  if (sortedEventTypes.length === 0)
+    throw Error(
+      'decodeEvent: Cannot decode an event without any declared event types.'
+    );
+  let eventFields = fields.map((f) => Field(f));
+  let type: string;
+  if (sortedEventTypes.length === 1) {
+    // if there is only one event type, the event structure has no index and can directly be matched to the event type
+    type = sortedEventTypes[0];
+  } else {
+    // if there are multiple events we have to use the index event[0] to find the exact event type
+    let index = Number(eventFields[0]?.toBigInt());
+    type = sortedEventTypes[index];
+    if (type === undefined)
+      throw Error(
+        `decodeEvent: Event index ${index} doesn't match any of the declared event types: ${sortedEventTypes.join(
+          ', '
+        )}.`
+      );
+    // all other elements of the array are values used to construct the original object, we can drop the first value since its just an index
+    eventFields = eventFields.slice(1);
+  }
+  let eventType = eventTypes[type];
+  let expectedLength = eventType.sizeInFields();
+  if (eventFields.length !== expectedLength)
+    throw Error(
+      `decodeEvent: Event of type "${type}" should have ${expectedLength} field elements, but got ${eventFields.length}.`
+    );
+  return {
+    type,
+    event: eventType.fromFields(eventFields) as InferProvable<
+      Events[keyof Events]
+    >,
+  };
+}